@@ -0,0 +1,124 @@
+import { useState, useMemo } from 'react';
+import type { ColumnarData } from '../types';
+import { detectSchema, getTargetFields, suggestMapping, validateMapping } from '../utils/columnMapping';
+import type { ColumnMapping, ColumnPreset, DatasetKind } from '../utils/columnMapping';
+
+interface ColumnMappingStepProps {
+  kind: DatasetKind;
+  fileName: string;
+  data: ColumnarData;
+  presets: ColumnPreset[]; // Presets for this dataset kind
+  onApply: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+  onSavePreset: (name: string, mapping: ColumnMapping) => void;
+  onDeletePreset: (name: string) => void;
+}
+
+// Map the source columns of a parquet file onto the tool's tracking/events fields
+export function ColumnMappingStep({ kind, fileName, data, presets, onApply, onCancel, onSavePreset, onDeletePreset }: ColumnMappingStepProps) {
+  const fields = getTargetFields(kind);
+  const schema = useMemo(() => detectSchema(data), [data]);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => suggestMapping(fields, schema, presets));
+  const [presetName, setPresetName] = useState('');
+
+  const errors = useMemo(() => validateMapping(fields, mapping, schema), [fields, mapping, schema]);
+  const isValid = Object.keys(errors).length === 0;
+  const existingPreset = presets.find(p => p.name === presetName.trim());
+
+  const handleFieldChange = (field: string, source: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (source) {
+        next[field] = source;
+      } else {
+        delete next[field];
+      }
+      return next;
+    });
+  };
+
+  const handleLoadPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (!preset) return;
+    setMapping({ ...preset.mapping });
+    setPresetName(preset.name);
+  };
+
+  return (
+    <div className="column-mapping">
+      <h3>Map {kind === 'tracking' ? 'Tracking' : 'Events'} Columns</h3>
+      <p>{fileName} is missing some of the expected columns. Pick the source column for each field.</p>
+
+      <div className="column-mapping-presets">
+        <select value="" onChange={(e) => handleLoadPreset(e.target.value)} disabled={presets.length === 0}>
+          <option value="">{presets.length > 0 ? 'Load preset...' : 'No saved presets'}</option>
+          {presets.map(p => (
+            <option key={p.name} value={p.name}>{p.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Preset name"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+        />
+        <button onClick={() => onSavePreset(presetName.trim(), mapping)} disabled={!presetName.trim() || !isValid}>
+          {existingPreset ? 'Update Preset' : 'Save Preset'}
+        </button>
+        {existingPreset && (
+          <button onClick={() => onDeletePreset(existingPreset.name)}>Delete Preset</button>
+        )}
+      </div>
+
+      <table className="column-mapping-table">
+        <thead>
+          <tr>
+            <th>Field</th>
+            <th>Source column</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(field => (
+            <tr key={field.name}>
+              <td>
+                <code>{field.name}</code>
+                {field.required && <span className="column-mapping-required">*</span>}
+              </td>
+              <td>
+                <select
+                  value={mapping[field.name] ?? ''}
+                  onChange={(e) => handleFieldChange(field.name, e.target.value)}
+                >
+                  <option value="">— not mapped —</option>
+                  {schema.map(col => (
+                    <option key={col.name} value={col.name}>{col.name} ({col.kind})</option>
+                  ))}
+                </select>
+              </td>
+              <td className="column-mapping-error">{errors[field.name] ?? ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <details className="column-mapping-schema">
+        <summary>Detected schema ({schema.length} columns, {data.numRows.toLocaleString()} rows)</summary>
+        <ul>
+          {schema.map(col => (
+            <li key={col.name}>
+              <code>{col.name}</code> · {col.kind}{col.sample && <> · e.g. {col.sample}</>}
+            </li>
+          ))}
+        </ul>
+      </details>
+
+      <div className="column-mapping-actions">
+        <button onClick={onCancel}>Cancel</button>
+        <button className="column-mapping-apply" onClick={() => onApply(mapping)} disabled={!isValid}>
+          Apply Mapping
+        </button>
+      </div>
+    </div>
+  );
+}
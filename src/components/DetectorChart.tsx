@@ -0,0 +1,67 @@
+import type { DetectorCurve } from '../utils/syncDetectors';
+
+interface DetectorChartProps {
+  curve: DetectorCurve;
+  currentFrameIdx: number;
+  suggestedFrameIdx: number | null;
+}
+
+// Chart drawing area
+const WIDTH = 200;
+const HEIGHT = 80;
+const PADDING = 4;
+
+// Small line chart of a detector's per-frame series with current/suggested frame markers
+export function DetectorChart({ curve, currentFrameIdx, suggestedFrameIdx }: DetectorChartProps) {
+  const { points } = curve;
+  if (points.length < 2) return null;
+
+  const minFrame = points[0].frameIdx;
+  const maxFrame = points[points.length - 1].frameIdx;
+  const maxValue = Math.max(...points.map(p => p.value), 1);
+
+  const scaleX = (frameIdx: number) =>
+    PADDING + ((frameIdx - minFrame) / Math.max(1, maxFrame - minFrame)) * (WIDTH - PADDING * 2);
+  const scaleY = (value: number) =>
+    HEIGHT - PADDING - (value / maxValue) * (HEIGHT - PADDING * 2);
+
+  const path = points.map(p => `${scaleX(p.frameIdx)},${scaleY(p.value)}`).join(' ');
+  const currentPoint = points.find(p => p.frameIdx === currentFrameIdx);
+  const showCurrent = currentFrameIdx >= minFrame && currentFrameIdx <= maxFrame;
+  const showSuggested = suggestedFrameIdx !== null && suggestedFrameIdx >= minFrame && suggestedFrameIdx <= maxFrame;
+
+  return (
+    <div className="detector-chart">
+      <div className="detector-chart-header">
+        <span>{curve.label}</span>
+        <span className="detector-chart-value">
+          {currentPoint ? `${currentPoint.value.toFixed(1)}${curve.unit}` : '—'}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="detector-chart-svg">
+        <polyline points={path} fill="none" stroke="#22d3ee" strokeWidth={1.5} />
+        {showSuggested && (
+          <line
+            x1={scaleX(suggestedFrameIdx!)}
+            y1={0}
+            x2={scaleX(suggestedFrameIdx!)}
+            y2={HEIGHT}
+            stroke="#22d3ee"
+            strokeDasharray="3 2"
+            strokeWidth={1}
+          />
+        )}
+        {showCurrent && (
+          <line
+            x1={scaleX(currentFrameIdx)}
+            y1={0}
+            x2={scaleX(currentFrameIdx)}
+            y2={HEIGHT}
+            stroke="white"
+            strokeWidth={1}
+          />
+        )}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useMemo } from 'react';
+import type { ColumnarData, EventFilterProfile } from '../types';
+import { countByValue, DEFAULT_EVENT_FILTER, PERIOD_NAMES } from '../utils/eventFilter';
+import { OPTA_EVENT_TYPE_NAMES } from '../utils/eventCategories';
+
+interface EventFilterEditorProps {
+  events: ColumnarData;   // All uploaded events, before filtering
+  selectedCount: number;  // Events left after the filter
+  profile: EventFilterProfile;
+  onChange: (profile: EventFilterProfile) => void;
+}
+
+// Add or remove a value from a sorted list
+function toggleValue(values: number[], value: number, checked: boolean): number[] {
+  const next = values.filter(v => v !== value);
+  if (checked) next.push(value);
+  return next.sort((a, b) => a - b);
+}
+
+// Pick the event types, periods and coordinate requirement of the events to sync
+export function EventFilterEditor({ events, selectedCount, profile, onChange }: EventFilterEditorProps) {
+  const typeCounts = useMemo(() => countByValue(events, 'event_type_id'), [events]);
+  const periodCounts = useMemo(() => countByValue(events, 'period_id'), [events]);
+
+  // Type names from the Opta list, falling back to the source data's own description
+  const typeNames = useMemo(() => {
+    const names: Record<number, string> = { ...OPTA_EVENT_TYPE_NAMES };
+    const typeCol = events.columns['event_type_id'];
+    const descCol = events.columns['event_type_desc'];
+    if (typeCol && descCol) {
+      for (let i = 0; i < events.numRows; i++) {
+        const type = Number(typeCol[i]);
+        if (!(type in names) && descCol[i]) names[type] = String(descCol[i]);
+      }
+    }
+    return names;
+  }, [events]);
+
+  const isDefault =
+    profile.requireCoordinates === DEFAULT_EVENT_FILTER.requireCoordinates &&
+    profile.periods.join() === DEFAULT_EVENT_FILTER.periods.join() &&
+    profile.eventTypes.join() === DEFAULT_EVENT_FILTER.eventTypes.join();
+
+  return (
+    <div className="event-filter">
+      <div className="event-filter-header">
+        <h3>Event Filter</h3>
+        <span>{selectedCount.toLocaleString()} of {events.numRows.toLocaleString()} events selected</span>
+        <button onClick={() => onChange(DEFAULT_EVENT_FILTER)} disabled={isDefault}>Reset to Default</button>
+      </div>
+
+      <div className="event-filter-group">
+        <h4>Periods</h4>
+        {periodCounts.map(({ value, count }) => (
+          <label key={value}>
+            <input
+              type="checkbox"
+              checked={profile.periods.includes(value)}
+              onChange={(e) => onChange({ ...profile, periods: toggleValue(profile.periods, value, e.target.checked) })}
+            />
+            {PERIOD_NAMES[value] ?? `Period ${value}`} <span className="event-filter-count">{count}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="event-filter-group">
+        <label>
+          <input
+            type="checkbox"
+            checked={profile.requireCoordinates}
+            onChange={(e) => onChange({ ...profile, requireCoordinates: e.target.checked })}
+          />
+          Only events with x/y coordinates
+        </label>
+      </div>
+
+      <details className="event-filter-group">
+        <summary>Event types ({profile.eventTypes.filter(type => typeCounts.some(t => t.value === type)).length} of {typeCounts.length} selected)</summary>
+        <div className="event-filter-types">
+          {typeCounts.map(({ value, count }) => (
+            <label key={value}>
+              <input
+                type="checkbox"
+                checked={profile.eventTypes.includes(value)}
+                onChange={(e) => onChange({ ...profile, eventTypes: toggleValue(profile.eventTypes, value, e.target.checked) })}
+              />
+              {value} · {typeNames[value] ?? 'Unknown'} <span className="event-filter-count">{count}</span>
+            </label>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -4,26 +4,67 @@ interface FrameSliderProps {
   frameOffset: number;
   onOffsetChange: (offset: number) => void;
   disabled?: boolean;
-  // Range in frames (e.g., -250 to +250 for ~10 seconds at 25fps)
-  minOffset?: number;
-  maxOffset?: number;
+  // Frame times of the event's period and the event's own frame - the track is laid out in time,
+  // so the range stays the same whatever the frame rate and dropped frames don't shift it
+  frameTimes: number[];
+  baseFrameIdx: number;
+  // Range in milliseconds either side of the event's frame
+  rangeMs?: number;
+  // Offset proposed by the sync detectors, shown as a marker on the track
+  suggestedOffset?: number | null;
+}
+
+// Tick marks every 2 seconds
+const TICK_INTERVAL_MS = 2000;
+
+function formatSeconds(ms: number, digits = 1): string {
+  return `${ms >= 0 ? '+' : ''}${(ms / 1000).toFixed(digits)}s`;
 }
 
 export function FrameSlider({
   frameOffset,
   onOffsetChange,
   disabled = false,
-  minOffset = -250,
-  maxOffset = 250,
+  frameTimes,
+  baseFrameIdx,
+  rangeMs = 10000,
+  suggestedOffset = null,
 }: FrameSliderProps) {
   const [isDragging, setIsDragging] = useState(false);
   const sliderRef = useRef<HTMLDivElement>(null);
 
+  const baseTime = frameTimes[baseFrameIdx] ?? 0;
+
+  // Time of a frame offset relative to the event's frame
+  const getTimeFromOffset = useCallback((offset: number) => {
+    if (frameTimes.length === 0) return 0;
+    const idx = Math.max(0, Math.min(frameTimes.length - 1, baseFrameIdx + offset));
+    return frameTimes[idx] - baseTime;
+  }, [frameTimes, baseFrameIdx, baseTime]);
+
+  // Frame offset of the frame closest to a time relative to the event's frame
+  const getOffsetFromTime = useCallback((ms: number) => {
+    if (frameTimes.length === 0) return 0;
+    const target = baseTime + ms;
+    let lo = 0;
+    let hi = frameTimes.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (frameTimes[mid] < target) lo = mid + 1;
+      else hi = mid;
+    }
+    const idx = lo > 0 && target - frameTimes[lo - 1] < frameTimes[lo] - target ? lo - 1 : lo;
+    return idx - baseFrameIdx;
+  }, [frameTimes, baseFrameIdx, baseTime]);
+
+  const minOffset = getOffsetFromTime(-rangeMs);
+  const maxOffset = getOffsetFromTime(rangeMs);
+
   // Calculate slider position from offset
   const getPositionFromOffset = useCallback((offset: number) => {
-    const range = maxOffset - minOffset;
-    return ((offset - minOffset) / range) * 100;
-  }, [minOffset, maxOffset]);
+    const ms = Math.max(-rangeMs, Math.min(rangeMs, getTimeFromOffset(offset)));
+    return ((ms + rangeMs) / (2 * rangeMs)) * 100;
+  }, [rangeMs, getTimeFromOffset]);
 
   // Calculate offset from mouse position on the slider
   const getOffsetFromClientX = useCallback((clientX: number) => {
@@ -31,9 +72,8 @@ export function FrameSlider({
 
     const rect = sliderRef.current.getBoundingClientRect();
     const positionPercent = Math.max(0, Math.min(100, ((clientX - rect.left) / rect.width) * 100));
-    const range = maxOffset - minOffset;
-    return Math.round(minOffset + (positionPercent / 100) * range);
-  }, [minOffset, maxOffset, frameOffset]);
+    return getOffsetFromTime(-rangeMs + (positionPercent / 100) * 2 * rangeMs);
+  }, [rangeMs, frameOffset, getOffsetFromTime]);
 
   // Handle mouse/touch down
   const handleDragStart = useCallback((clientX: number) => {
@@ -135,18 +175,21 @@ export function FrameSlider({
   const isNegative = frameOffset < 0;
   const isPositive = frameOffset > 0;
 
-  // Calculate time offset (assuming 25 fps)
-  const timeOffsetMs = Math.round(frameOffset * 40); // 1000ms / 25fps = 40ms per frame
-  const timeOffsetSec = (timeOffsetMs / 1000).toFixed(1);
+  // Time offset from the actual frame times
+  const timeOffsetMs = getTimeFromOffset(frameOffset);
+  const ticks: number[] = [];
+  for (let ms = -rangeMs + TICK_INTERVAL_MS; ms < rangeMs; ms += TICK_INTERVAL_MS) {
+    ticks.push(ms);
+  }
 
   return (
     <div className={`frame-slider ${disabled ? 'disabled' : ''}`}>
       <div className="slider-labels">
-        <span className="slider-label-left">-10s</span>
+        <span className="slider-label-left">-{rangeMs / 1000}s</span>
         <span className="slider-label-center">
-          {frameOffset >= 0 ? '+' : ''}{frameOffset} frames ({frameOffset >= 0 ? '+' : ''}{timeOffsetSec}s)
+          {formatSeconds(timeOffsetMs, 2)} ({frameOffset >= 0 ? '+' : ''}{frameOffset} frames)
         </span>
-        <span className="slider-label-right">+10s</span>
+        <span className="slider-label-right">+{rangeMs / 1000}s</span>
       </div>
 
       <div
@@ -156,9 +199,10 @@ export function FrameSlider({
         onKeyDown={handleKeyDown}
         tabIndex={disabled ? -1 : 0}
         role="slider"
-        aria-valuemin={minOffset}
-        aria-valuemax={maxOffset}
-        aria-valuenow={frameOffset}
+        aria-valuemin={-rangeMs}
+        aria-valuemax={rangeMs}
+        aria-valuenow={timeOffsetMs}
+        aria-valuetext={formatSeconds(timeOffsetMs, 2)}
         aria-disabled={disabled}
       >
         {/* Center marker */}
@@ -173,6 +217,15 @@ export function FrameSlider({
           }}
         />
 
+        {/* Suggested frame marker */}
+        {suggestedOffset !== null && suggestedOffset >= minOffset && suggestedOffset <= maxOffset && (
+          <div
+            className="slider-suggestion-mark"
+            style={{ left: `${getPositionFromOffset(suggestedOffset)}%` }}
+            title={`Suggested: ${formatSeconds(getTimeFromOffset(suggestedOffset), 2)} (${suggestedOffset >= 0 ? '+' : ''}${suggestedOffset} frames)`}
+          />
+        )}
+
         {/* Thumb */}
         <div
           className={`slider-thumb ${isDragging ? 'dragging' : ''}`}
@@ -187,11 +240,11 @@ export function FrameSlider({
 
         {/* Tick marks */}
         <div className="slider-ticks">
-          {[-200, -150, -100, -50, 0, 50, 100, 150, 200].map(tick => (
+          {ticks.map(tick => (
             <div
               key={tick}
               className={`slider-tick ${tick === 0 ? 'center' : ''}`}
-              style={{ left: `${getPositionFromOffset(tick)}%` }}
+              style={{ left: `${((tick + rangeMs) / (2 * rangeMs)) * 100}%` }}
             />
           ))}
         </div>
@@ -1,4 +1,7 @@
-import type { TrackingRow, EventRow } from '../types';
+import { useMemo } from 'react';
+import type { TrackingRow, EventRow, Lineup, PitchDimensions } from '../types';
+import { createLineupLookup, getEventPlayer } from '../utils/lineup';
+import { convertPoint, DEFAULT_PITCH } from '../utils/coordinates';
 
 interface PitchSVGProps {
   frameData: TrackingRow[];
@@ -6,23 +9,13 @@ interface PitchSVGProps {
   teamIds: number[];
   currentTime: number | null;
   frameOffset: number;
+  lineup?: Lineup; // Player and team names, when a lineup file was uploaded
+  pitch?: PitchDimensions; // Match pitch size from the tracking metadata
 }
 
-// Opta pitch dimensions: 100x100 coordinate system (0-100 for both x and y)
-// We'll draw at 105x68 aspect ratio (standard pitch)
-const PITCH_LENGTH = 105;
-const PITCH_WIDTH = 68;
+// The pitch is drawn in meters at the match pitch size (105x68 unless the tracking metadata says otherwise)
 const PADDING = 5;
 
-// Scale Opta coordinates (0-100) to pitch coordinates
-function scaleX(x: number): number {
-  return (x / 100) * PITCH_LENGTH + PADDING;
-}
-
-function scaleY(y: number): number {
-  return (y / 100) * PITCH_WIDTH + PADDING;
-}
-
 // Helper to safely get jersey number (handles Int64/BigInt/null/NaN/various formats)
 function getJerseyNo(value: unknown): string {
   // Handle null/undefined
@@ -73,9 +66,16 @@ const BALL_RADIUS = 0.8;    // Between original 1.2 and halved 0.6
 const EVENT_SIZE = 2.0;     // Between original 3 and halved 1.5
 const FONT_SIZE = 1.0;      // Between original 1.4 and halved 0.7
 
-export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }: PitchSVGProps) {
-  const viewBoxWidth = PITCH_LENGTH + PADDING * 2;
-  const viewBoxHeight = PITCH_WIDTH + PADDING * 2;
+export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset, lineup, pitch = DEFAULT_PITCH }: PitchSVGProps) {
+  const lineupLookup = useMemo(() => createLineupLookup(lineup), [lineup]);
+
+  const { length: pitchLength, width: pitchWidth } = pitch;
+  const viewBoxWidth = pitchLength + PADDING * 2;
+  const viewBoxHeight = pitchWidth + PADDING * 2;
+
+  // Opta coordinates (0-100) to meters from the Opta (0, 0) corner - the Opta axes convert independently
+  const scaleX = (x: number) => convertPoint({ x, y: 50 }, 'opta', 'metric-corner', pitch).x + PADDING;
+  const scaleY = (y: number) => convertPoint({ x: 50, y }, 'opta', 'metric-corner', pitch).y + PADDING;
 
   // Extract ball and players
   const ball = frameData.find(d => d.is_ball === 1);
@@ -88,11 +88,13 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
   const team2Color = 'indianred';
   const eventColor = eventTeamIsTeam1 ? team1Color : team2Color;
 
-  // Event position
-  const eventX = event ? scaleX(event.x) : 0;
-  const eventY = event ? scaleY(event.y) : 0;
+  // Names from the lineup file, if any
+  const eventPlayer = event ? getEventPlayer(lineupLookup, event) : null;
+  const eventTeamName = event ? lineupLookup.teamName(event.team_id) : null;
+  const playerTooltip = (player: TrackingRow) =>
+    lineupLookup.player(player.team_opta_id, player.jersey_no)?.name ?? `#${getJerseyNo(player.jersey_no)}`;
 
-  // Check for valid pass end coordinates
+  // Check for valid coordinates
   // Must be: non-null, non-undefined, a number, finite (not NaN/Infinity)
   const isValidCoord = (val: unknown): val is number => {
     return val !== null &&
@@ -101,12 +103,17 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
            Number.isFinite(val);
   };
 
+  // Event position - events without coordinates (allowed by the event filter) get no marker
+  const hasEventPosition = !!event && isValidCoord(event.x) && isValidCoord(event.y);
+  const eventX = hasEventPosition ? scaleX(event.x) : 0;
+  const eventY = hasEventPosition ? scaleY(event.y) : 0;
+
   const passEndXValid = isValidCoord(event?.pass_end_x);
   const passEndYValid = isValidCoord(event?.pass_end_y);
 
   // Also check that the coordinates aren't both 0 (often indicates missing data)
   // and that end point is different from start point
-  const endPointIsDifferent = passEndXValid && passEndYValid &&
+  const endPointIsDifferent = hasEventPosition && passEndXValid && passEndYValid &&
     !(event!.pass_end_x === 0 && event!.pass_end_y === 0) &&
     (event!.pass_end_x !== event!.x || event!.pass_end_y !== event!.y);
 
@@ -127,7 +134,8 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
         {event && (
           <>
             <strong>'{event.event_type_desc || event.event_type_id}'</strong> event |
-            Player: {getJerseyNo(event.jersey_no)} ({eventTeamIsTeam1 ? 'Blue team' : 'Red team'})
+            Player: {getJerseyNo(event.jersey_no)}{eventPlayer && ` ${eventPlayer.name}`}
+            {' '}({eventTeamName ? `${eventTeamName}, ${eventTeamIsTeam1 ? 'blue' : 'red'}` : eventTeamIsTeam1 ? 'Blue team' : 'Red team'})
           </>
         )}
       </div>
@@ -150,8 +158,8 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
         <rect
           x={PADDING}
           y={PADDING}
-          width={PITCH_LENGTH}
-          height={PITCH_WIDTH}
+          width={pitchLength}
+          height={pitchWidth}
           fill="#2d5a27"
           stroke="white"
           strokeWidth={0.3}
@@ -159,8 +167,8 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
 
         {/* Center circle */}
         <circle
-          cx={PADDING + PITCH_LENGTH / 2}
-          cy={PADDING + PITCH_WIDTH / 2}
+          cx={PADDING + pitchLength / 2}
+          cy={PADDING + pitchWidth / 2}
           r={9.15}
           fill="none"
           stroke="white"
@@ -169,18 +177,18 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
 
         {/* Center spot */}
         <circle
-          cx={PADDING + PITCH_LENGTH / 2}
-          cy={PADDING + PITCH_WIDTH / 2}
+          cx={PADDING + pitchLength / 2}
+          cy={PADDING + pitchWidth / 2}
           r={0.5}
           fill="white"
         />
 
         {/* Center line */}
         <line
-          x1={PADDING + PITCH_LENGTH / 2}
+          x1={PADDING + pitchLength / 2}
           y1={PADDING}
-          x2={PADDING + PITCH_LENGTH / 2}
-          y2={PADDING + PITCH_WIDTH}
+          x2={PADDING + pitchLength / 2}
+          y2={PADDING + pitchWidth}
           stroke="white"
           strokeWidth={0.3}
         />
@@ -188,7 +196,7 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
         {/* Left penalty area */}
         <rect
           x={PADDING}
-          y={PADDING + (PITCH_WIDTH - 40.32) / 2}
+          y={PADDING + (pitchWidth - 40.32) / 2}
           width={16.5}
           height={40.32}
           fill="none"
@@ -199,7 +207,7 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
         {/* Left goal area */}
         <rect
           x={PADDING}
-          y={PADDING + (PITCH_WIDTH - 18.32) / 2}
+          y={PADDING + (pitchWidth - 18.32) / 2}
           width={5.5}
           height={18.32}
           fill="none"
@@ -210,14 +218,14 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
         {/* Left penalty spot */}
         <circle
           cx={PADDING + 11}
-          cy={PADDING + PITCH_WIDTH / 2}
+          cy={PADDING + pitchWidth / 2}
           r={0.5}
           fill="white"
         />
 
         {/* Left penalty arc */}
         <path
-          d={`M ${PADDING + 16.5} ${PADDING + PITCH_WIDTH / 2 - 9.15} A 9.15 9.15 0 0 1 ${PADDING + 16.5} ${PADDING + PITCH_WIDTH / 2 + 9.15}`}
+          d={`M ${PADDING + 16.5} ${PADDING + pitchWidth / 2 - 9.15} A 9.15 9.15 0 0 1 ${PADDING + 16.5} ${PADDING + pitchWidth / 2 + 9.15}`}
           fill="none"
           stroke="white"
           strokeWidth={0.3}
@@ -225,8 +233,8 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
 
         {/* Right penalty area */}
         <rect
-          x={PADDING + PITCH_LENGTH - 16.5}
-          y={PADDING + (PITCH_WIDTH - 40.32) / 2}
+          x={PADDING + pitchLength - 16.5}
+          y={PADDING + (pitchWidth - 40.32) / 2}
           width={16.5}
           height={40.32}
           fill="none"
@@ -236,8 +244,8 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
 
         {/* Right goal area */}
         <rect
-          x={PADDING + PITCH_LENGTH - 5.5}
-          y={PADDING + (PITCH_WIDTH - 18.32) / 2}
+          x={PADDING + pitchLength - 5.5}
+          y={PADDING + (pitchWidth - 18.32) / 2}
           width={5.5}
           height={18.32}
           fill="none"
@@ -247,15 +255,15 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
 
         {/* Right penalty spot */}
         <circle
-          cx={PADDING + PITCH_LENGTH - 11}
-          cy={PADDING + PITCH_WIDTH / 2}
+          cx={PADDING + pitchLength - 11}
+          cy={PADDING + pitchWidth / 2}
           r={0.5}
           fill="white"
         />
 
         {/* Right penalty arc */}
         <path
-          d={`M ${PADDING + PITCH_LENGTH - 16.5} ${PADDING + PITCH_WIDTH / 2 - 9.15} A 9.15 9.15 0 0 0 ${PADDING + PITCH_LENGTH - 16.5} ${PADDING + PITCH_WIDTH / 2 + 9.15}`}
+          d={`M ${PADDING + pitchLength - 16.5} ${PADDING + pitchWidth / 2 - 9.15} A 9.15 9.15 0 0 0 ${PADDING + pitchLength - 16.5} ${PADDING + pitchWidth / 2 + 9.15}`}
           fill="none"
           stroke="white"
           strokeWidth={0.3}
@@ -264,7 +272,7 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
         {/* Goals */}
         <rect
           x={PADDING - 2}
-          y={PADDING + (PITCH_WIDTH - 7.32) / 2}
+          y={PADDING + (pitchWidth - 7.32) / 2}
           width={2}
           height={7.32}
           fill="none"
@@ -272,8 +280,8 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
           strokeWidth={0.3}
         />
         <rect
-          x={PADDING + PITCH_LENGTH}
-          y={PADDING + (PITCH_WIDTH - 7.32) / 2}
+          x={PADDING + pitchLength}
+          y={PADDING + (pitchWidth - 7.32) / 2}
           width={2}
           height={7.32}
           fill="none"
@@ -283,14 +291,14 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
 
         {/* Corner arcs */}
         <path d={`M ${PADDING} ${PADDING + 1} A 1 1 0 0 0 ${PADDING + 1} ${PADDING}`} fill="none" stroke="white" strokeWidth={0.3} />
-        <path d={`M ${PADDING + PITCH_LENGTH - 1} ${PADDING} A 1 1 0 0 0 ${PADDING + PITCH_LENGTH} ${PADDING + 1}`} fill="none" stroke="white" strokeWidth={0.3} />
-        <path d={`M ${PADDING} ${PADDING + PITCH_WIDTH - 1} A 1 1 0 0 1 ${PADDING + 1} ${PADDING + PITCH_WIDTH}`} fill="none" stroke="white" strokeWidth={0.3} />
-        <path d={`M ${PADDING + PITCH_LENGTH - 1} ${PADDING + PITCH_WIDTH} A 1 1 0 0 1 ${PADDING + PITCH_LENGTH} ${PADDING + PITCH_WIDTH - 1}`} fill="none" stroke="white" strokeWidth={0.3} />
+        <path d={`M ${PADDING + pitchLength - 1} ${PADDING} A 1 1 0 0 0 ${PADDING + pitchLength} ${PADDING + 1}`} fill="none" stroke="white" strokeWidth={0.3} />
+        <path d={`M ${PADDING} ${PADDING + pitchWidth - 1} A 1 1 0 0 1 ${PADDING + 1} ${PADDING + pitchWidth}`} fill="none" stroke="white" strokeWidth={0.3} />
+        <path d={`M ${PADDING + pitchLength - 1} ${PADDING + pitchWidth} A 1 1 0 0 1 ${PADDING + pitchLength} ${PADDING + pitchWidth - 1}`} fill="none" stroke="white" strokeWidth={0.3} />
 
         {/* Z-order: event (bottom) -> non-event team -> event team -> ball (top) */}
 
         {/* Event marker (at the bottom) */}
-        {event && (
+        {hasEventPosition && (
           <>
             {hasPassEnd && (
               <line
@@ -329,6 +337,7 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
         {/* Non-event team (behind event team) */}
         {(eventTeamIsTeam1 ? team2Players : team1Players).map((player, idx) => (
           <g key={`team-behind-${idx}`}>
+            <title>{playerTooltip(player)}</title>
             <circle
               cx={scaleX(player.pos_x)}
               cy={scaleY(player.pos_y)}
@@ -354,6 +363,7 @@ export function PitchSVG({ frameData, event, teamIds, currentTime, frameOffset }
         {/* Event team (on top of non-event team) */}
         {(eventTeamIsTeam1 ? team1Players : team2Players).map((player, idx) => (
           <g key={`team-front-${idx}`}>
+            <title>{playerTooltip(player)}</title>
             <circle
               cx={scaleX(player.pos_x)}
               cy={scaleY(player.pos_y)}
@@ -0,0 +1,70 @@
+import { QUALITY_ISSUE_LABELS } from '../utils/trackingQuality';
+import type { QualityIssueKind, QualityReport } from '../types';
+
+interface QualityTimelineProps {
+  report: QualityReport;
+  currentPeriod: number | null;
+  currentTime: number | null;
+}
+
+// Narrow spans are widened to stay visible
+const MIN_SPAN_WIDTH = 0.3; // %
+
+function formatClock(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Tracking quality spans per period, with the current frame marked
+export function QualityTimeline({ report, currentPeriod, currentTime }: QualityTimelineProps) {
+  const counts = new Map<QualityIssueKind, number>();
+  for (const span of report.spans) {
+    counts.set(span.kind, (counts.get(span.kind) ?? 0) + 1);
+  }
+
+  return (
+    <details className="quality-timeline" open={report.spans.length > 0}>
+      <summary>
+        <h4>Tracking Quality</h4>
+        <span>{report.spans.length === 0 ? '✓ No problems found' : `${report.spans.length} problem spans`}</span>
+      </summary>
+
+      {report.periods.map(({ period, startTime, endTime }) => {
+        const duration = Math.max(1, endTime - startTime);
+        const toPercent = (time: number) => ((time - startTime) / duration) * 100;
+        return (
+          <div key={period} className="quality-period">
+            <span className="quality-period-label">P{period}</span>
+            <div className="quality-track">
+              {report.spans.filter(span => span.period === period).map((span, i) => (
+                <div
+                  key={i}
+                  className={`quality-span ${span.kind}`}
+                  style={{
+                    left: `${toPercent(span.startTime)}%`,
+                    width: `${Math.max(MIN_SPAN_WIDTH, toPercent(span.endTime) - toPercent(span.startTime))}%`,
+                  }}
+                  title={`${QUALITY_ISSUE_LABELS[span.kind]} ${formatClock(span.startTime)}–${formatClock(span.endTime)}${span.detail ? ` · ${span.detail}` : ''}`}
+                />
+              ))}
+              {period === currentPeriod && currentTime !== null && (
+                <div className="quality-current" style={{ left: `${toPercent(currentTime)}%` }} />
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {counts.size > 0 && (
+        <div className="quality-legend">
+          {[...counts.entries()].map(([kind, count]) => (
+            <span key={kind}>
+              <span className={`quality-swatch ${kind}`} />
+              {QUALITY_ISSUE_LABELS[kind]} ({count})
+            </span>
+          ))}
+        </div>
+      )}
+    </details>
+  );
+}
@@ -1,34 +1,12 @@
 import { useState, useMemo } from 'react';
+import { getEventCategory } from '../utils/eventCategories';
+import type { EventCategory } from '../utils/eventCategories';
 
 interface SyncInstructionsProps {
   eventTypeId?: string | number;
   eventTypeDesc?: string;
 }
 
-// Event type categories
-type EventCategory = 'pass' | 'aerial' | 'interception' | 'outofbounds' | 'other';
-
-// Map event type IDs to categories
-function getEventCategory(eventTypeId?: string | number): EventCategory {
-  if (eventTypeId === undefined || eventTypeId === null) return 'other';
-
-  const id = Number(eventTypeId);
-
-  // Passes, clearances, shots: 1 (pass), 12 (clearance), 13, 14, 15, 16 (shots)
-  if ([1, 12, 13, 14, 15, 16].includes(id)) return 'pass';
-
-  // Aerial duels: 44
-  if (id === 44) return 'aerial';
-
-  // Interceptions/recoveries: 8 (interception), 49 (ball recovery)
-  if ([8, 49].includes(id)) return 'interception';
-
-  // Out of bounds: 5 (out), 6 (corner awarded)
-  if ([5, 6].includes(id)) return 'outofbounds';
-
-  return 'other';
-}
-
 // Get display name for category
 function getCategoryName(category: EventCategory): string {
   switch (category) {
@@ -3,14 +3,29 @@ import { useSyncContext } from '../context/SyncContext';
 import { PitchSVG } from './PitchSVG';
 import { FrameSlider } from './FrameSlider';
 import { SyncInstructions, getEventCategory } from './SyncInstructions';
-import type { TrackingRow, EventRow, SyncedResults } from '../types';
+import { getPeriodTimes, findFrameAtOrAfter, getFrameRows } from '../utils/frameIndex';
+import { suggestSyncFrame, DEFAULT_DETECTOR_OPTIONS } from '../utils/syncDetectors';
+import { findPairedEventIndex } from '../utils/linkedGroups';
+import { DetectorChart } from './DetectorChart';
+import { QualityTimeline } from './QualityTimeline';
+import { DEFAULT_PRESYNC_THRESHOLD } from '../utils/presync';
+import { parseSyncResults, SKIP_REASON_LABELS } from '../utils/syncResults';
+import { createLineupLookup, getEventPlayer } from '../utils/lineup';
+import { detectAttackingDirections, mirrorEvent } from '../utils/attackingDirection';
+import { getQualitySpansAt, QUALITY_ISSUE_LABELS } from '../utils/trackingQuality';
+import type { TrackingRow, EventRow, SkipReason } from '../types';
+
+// Tracking problems this close to an event's matched_time are shown in the sidebar
+const QUALITY_WINDOW_MS = 2000;
 
 export function SyncPage() {
   const {
     eventsData,
     trackingData,
+    frameIndex,
     metadata,
     syncedResults,
+    skippedEvents,
     currentEventIndex,
     frameOffset,
     setFrameOffset,
@@ -19,11 +34,27 @@ export function SyncPage() {
     prevEvent,
     nextUnsynced,
     jumpToEvent,
+    getEventGroup,
+    isGroupLinked,
+    setGroupLinked,
+    setPeriodFlipped,
     syncCurrentEvent,
     skipEvent,
+    clearCurrentSync,
+    undoLabel,
+    redoLabel,
+    undo,
+    redo,
     downloadResults,
     uploadResults,
     resetAll,
+    reviewQueue,
+    preSyncProgress,
+    preSyncAll,
+    dismissReviewItem,
+    annotator,
+    setAnnotator,
+    qualityReport,
   } = useSyncContext();
 
   // Helper to get event row from columnar data
@@ -41,34 +72,50 @@ export function SyncPage() {
     return getEventRow(currentEventIndex);
   }, [getEventRow, currentEventIndex]);
 
+  // Player and team names from the lineup file, if any
+  const lineupLookup = useMemo(() => createLineupLookup(metadata?.lineup), [metadata]);
+  const currentPlayer = currentEvent ? getEventPlayer(lineupLookup, currentEvent) : null;
+  const currentTeamName = currentEvent ? lineupLookup.teamName(currentEvent.team_id) : null;
+
+  // Attacking direction per period and team from the tracking data - events are normalized to attack right,
+  // so the events of the team attacking left are mirrored onto the tracking, which is drawn as recorded
+  const attackingDirections = useMemo(
+    () => (trackingData ? detectAttackingDirections(trackingData) : new Map()),
+    [trackingData]
+  );
+
+  const detectedDirection = currentEvent
+    ? attackingDirections.get(currentEvent.period_id)?.get(currentEvent.team_id) ?? null
+    : null;
+  const isPeriodFlipped = !!currentEvent && !!metadata?.flippedPeriods?.includes(currentEvent.period_id);
+  const isEventMirrored = (detectedDirection === 'left') !== isPeriodFlipped;
+  const displayEvent = useMemo(
+    () => (currentEvent && isEventMirrored ? mirrorEvent(currentEvent) : currentEvent),
+    [currentEvent, isEventMirrored]
+  );
+
+  const togglePeriodFlip = useCallback(() => {
+    if (currentEvent) setPeriodFlipped(currentEvent.period_id, !isPeriodFlipped);
+  }, [currentEvent, isPeriodFlipped, setPeriodFlipped]);
+
   // Get frame data for current event with offset
-  const { frameData, currentTime, frameIdx, totalFrames } = useMemo(() => {
-    if (!currentEvent || !trackingData) {
-      return { frameData: [] as TrackingRow[], currentTime: null, frameIdx: 0, totalFrames: 0 };
+  const { frameData, currentTime, frameIdx, baseFrameIdx, totalFrames, periodTimes } = useMemo(() => {
+    if (!currentEvent || !trackingData || !frameIndex) {
+      return { frameData: [] as TrackingRow[], currentTime: null, frameIdx: 0, baseFrameIdx: 0, totalFrames: 0, periodTimes: [] as number[] };
     }
 
     const period = currentEvent.period_id;
     const baseTime = currentEvent.matched_time;
 
-    // Get columns
-    const periodCol = trackingData.columns['period_id'] as number[];
-    const timeCol = trackingData.columns['matched_time'] as number[];
-
-    // Get unique times for this period
-    const timesSet = new Set<number>();
-    for (let i = 0; i < trackingData.numRows; i++) {
-      if (periodCol[i] === period) {
-        timesSet.add(timeCol[i]);
-      }
-    }
-    const uniqueTimes = [...timesSet].sort((a, b) => a - b);
+    // Get unique times for this period from the precomputed frame index
+    const uniqueTimes = getPeriodTimes(frameIndex, period);
 
     if (uniqueTimes.length === 0) {
-      return { frameData: [] as TrackingRow[], currentTime: null, frameIdx: 0, totalFrames: 0 };
+      return { frameData: [] as TrackingRow[], currentTime: null, frameIdx: 0, baseFrameIdx: 0, totalFrames: 0, periodTimes: uniqueTimes };
     }
 
     // Find base index
-    let baseIdx = uniqueTimes.findIndex(t => t >= baseTime);
+    let baseIdx = findFrameAtOrAfter(uniqueTimes, baseTime);
     if (baseIdx === -1) baseIdx = uniqueTimes.length - 1;
 
     // Apply offset
@@ -78,24 +125,49 @@ export function SyncPage() {
     const targetTime = uniqueTimes[targetIdx];
 
     // Get frame data for this time - convert to row objects for PitchSVG
-    const frameData: TrackingRow[] = [];
-    for (let i = 0; i < trackingData.numRows; i++) {
-      if (periodCol[i] === period && timeCol[i] === targetTime) {
-        const row: Record<string, unknown> = {};
-        for (const name of trackingData.fieldNames) {
-          row[name] = trackingData.columns[name][i];
-        }
-        frameData.push(row as unknown as TrackingRow);
-      }
-    }
+    const frameData = getFrameRows<TrackingRow>(trackingData, frameIndex, period, targetIdx);
 
     return {
       frameData,
       currentTime: targetTime,
       frameIdx: targetIdx,
+      baseFrameIdx: baseIdx,
       totalFrames: uniqueTimes.length,
+      periodTimes: uniqueTimes,
     };
-  }, [currentEvent, trackingData, frameOffset]);
+  }, [currentEvent, trackingData, frameIndex, frameOffset]);
+
+  // Automatic sync suggestion for the current event (null if no detector applies)
+  const pairedEventIndex = useMemo(() => {
+    if (!eventsData || currentEventIndex >= eventsData.numRows) return null;
+    return findPairedEventIndex(eventsData, getEventGroup(currentEventIndex), currentEventIndex);
+  }, [eventsData, currentEventIndex, getEventGroup]);
+
+  const detectorOptions = useMemo(() => ({
+    ...DEFAULT_DETECTOR_OPTIONS,
+    pitch: metadata?.pitch ?? DEFAULT_DETECTOR_OPTIONS.pitch,
+  }), [metadata]);
+
+  const suggestion = useMemo(() => {
+    if (!currentEvent || !trackingData || !frameIndex) return null;
+    const pairedEvent = pairedEventIndex !== null ? getEventRow(pairedEventIndex) : null;
+    return suggestSyncFrame(currentEvent, trackingData, frameIndex, detectorOptions, pairedEvent);
+  }, [currentEvent, pairedEventIndex, trackingData, frameIndex, getEventRow, detectorOptions]);
+
+  const suggestedOffset = suggestion ? suggestion.frameIdx - baseFrameIdx : null;
+
+  // Tracking problems around the current event
+  const eventQualitySpans = useMemo(() => {
+    if (!qualityReport || !currentEvent) return [];
+    const time = currentEvent.matched_time;
+    return getQualitySpansAt(qualityReport, currentEvent.period_id, time - QUALITY_WINDOW_MS, time + QUALITY_WINDOW_MS);
+  }, [qualityReport, currentEvent]);
+
+  // Detected frame rate of the current period, and the gap right before the shown frame if frames were dropped
+  const frameRate = currentEvent ? frameIndex?.periods.get(currentEvent.period_id)?.frameRate ?? null : null;
+  const gapBeforeFrame = frameRate && frameIdx > 0
+    ? frameRate.gaps.find(gap => gap.endTime === periodTimes[frameIdx]) ?? null
+    : null;
 
   // Check if current event is synced
   const isCurrentSynced = useMemo(() => {
@@ -122,22 +194,64 @@ export function SyncPage() {
     if (!prevEvent) return null;
 
     const prevEventId = String(prevEvent.opta_event_id ?? (currentEventIndex - 1));
-    return syncedResults[prevEventId] ?? null;
+    return syncedResults[prevEventId]?.time ?? null;
   }, [currentEventIndex, eventsData, getEventRow, syncedResults]);
 
+  // Provenance of the current event's sync
+  const currentSyncRecord = useMemo(() => {
+    if (!currentEvent) return null;
+    return syncedResults[String(currentEvent.opta_event_id ?? currentEventIndex)] ?? null;
+  }, [currentEvent, currentEventIndex, syncedResults]);
+
+  // Linked group of the current event (synced together unless unlinked)
+  const currentGroup = useMemo(() => getEventGroup(currentEventIndex), [getEventGroup, currentEventIndex]);
+  const currentGroupLinked = currentGroup !== null && isGroupLinked(currentGroup.key);
+
+  // Skip status of the current event
+  const currentSkipRecord = useMemo(() => {
+    if (!currentEvent) return null;
+    return skippedEvents[String(currentEvent.opta_event_id ?? currentEventIndex)] ?? null;
+  }, [currentEvent, currentEventIndex, skippedEvents]);
+
+  // Optional note attached to the next sync or skip
+  const [syncNote, setSyncNote] = useState('');
+
+  // Reason recorded with the next skip
+  const [skipReason, setSkipReason] = useState<SkipReason>('no-tracking');
+
   // Handle sync
   const handleSync = useCallback(() => {
     if (currentTime !== null) {
-      syncCurrentEvent(currentTime);
+      syncCurrentEvent(currentTime, { method: 'manual', note: syncNote });
+      setSyncNote('');
     }
-  }, [currentTime, syncCurrentEvent]);
+  }, [currentTime, syncNote, syncCurrentEvent]);
+
+  // Handle skip with the selected reason
+  const handleSkip = useCallback(() => {
+    skipEvent(skipReason, syncNote);
+    setSyncNote('');
+  }, [skipReason, syncNote, skipEvent]);
 
   // Handle sync to same frame as previous event
   const handleSyncToPrevious = useCallback(() => {
     if (previousEventSyncedTime !== null) {
-      syncCurrentEvent(previousEventSyncedTime);
+      syncCurrentEvent(previousEventSyncedTime, { method: 'previous', note: syncNote });
+      setSyncNote('');
     }
-  }, [previousEventSyncedTime, syncCurrentEvent]);
+  }, [previousEventSyncedTime, syncNote, syncCurrentEvent]);
+
+  // Accept the automatic suggestion (applies to the whole linked group)
+  const handleAcceptSuggestion = useCallback(() => {
+    if (!suggestion) return;
+    syncCurrentEvent(suggestion.time, {
+      method: 'heuristic',
+      note: syncNote,
+      detector: suggestion.detector,
+      confidence: suggestion.confidence,
+    });
+    setSyncNote('');
+  }, [suggestion, syncNote, syncCurrentEvent]);
 
   // Handle reset with confirmation
   const handleResetClick = useCallback(() => {
@@ -158,12 +272,12 @@ export function SyncPage() {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleUploadClick = useCallback(() => {
-    if (Object.keys(syncedResults).length > 0) {
+    if (Object.keys(syncedResults).length > 0 || Object.keys(skippedEvents).length > 0) {
       setShowUploadConfirm(true);
     } else {
       fileInputRef.current?.click();
     }
-  }, [syncedResults]);
+  }, [syncedResults, skippedEvents]);
 
   const handleUploadConfirm = useCallback(() => {
     setShowUploadConfirm(false);
@@ -180,23 +294,10 @@ export function SyncPage() {
 
     try {
       const text = await file.text();
-      const parsed = JSON.parse(text);
-
-      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
-        alert('Failed to upload JSON: Invalid format — expected a JSON object');
-        return;
-      }
-
-      const results: SyncedResults = {};
-      for (const [key, value] of Object.entries(parsed)) {
-        if (typeof value !== 'number') {
-          alert(`Failed to upload JSON: Invalid value for event "${key}" — expected a number`);
-          return;
-        }
-        results[key] = value;
-      }
+      // Accepts both the old bare-time format and provenance records
+      const { results, skipped } = parseSyncResults(JSON.parse(text));
 
-      await uploadResults(results);
+      await uploadResults(results, skipped);
     } catch (err) {
       alert(`Failed to upload JSON: ${err instanceof Error ? err.message : String(err)}`);
     }
@@ -271,6 +372,49 @@ export function SyncPage() {
     };
   }, [adjustFrameOffset]);
 
+  // "A" key accepts the suggested frame
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement)?.tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+
+      if (e.key === 'a' || e.key === 'A') {
+        e.preventDefault();
+        handleAcceptSuggestion();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleAcceptSuggestion]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) for undo/redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement)?.tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Batch pre-sync confidence threshold (percent)
+  const [preSyncThreshold, setPreSyncThreshold] = useState(Math.round(DEFAULT_PRESYNC_THRESHOLD * 100));
+
+  const handlePreSync = useCallback(() => {
+    preSyncAll(preSyncThreshold / 100);
+  }, [preSyncAll, preSyncThreshold]);
+
   // Jump to event handler
   const [jumpValue, setJumpValue] = useState(currentEventIndex);
 
@@ -282,6 +426,15 @@ export function SyncPage() {
     jumpToEvent(jumpValue);
   }, [jumpValue, jumpToEvent]);
 
+  // Skipped events per reason for the completion screen
+  const skipCounts = useMemo(() => {
+    const counts = new Map<SkipReason, number>();
+    for (const record of Object.values(skippedEvents)) {
+      counts.set(record.reason, (counts.get(record.reason) ?? 0) + 1);
+    }
+    return [...counts.entries()];
+  }, [skippedEvents]);
+
   if (isComplete) {
     return (
       <div className="sync-page">
@@ -289,6 +442,14 @@ export function SyncPage() {
           <h2>✓ Complete!</h2>
           <p>All events have been processed.</p>
           <p><strong>Synced:</strong> {Object.keys(syncedResults).length} events</p>
+          <p><strong>Skipped:</strong> {Object.keys(skippedEvents).length} events</p>
+          {skipCounts.length > 0 && (
+            <ul className="skip-breakdown">
+              {skipCounts.map(([reason, count]) => (
+                <li key={reason}>{SKIP_REASON_LABELS[reason]}: {count}</li>
+              ))}
+            </ul>
+          )}
 
           <div className="completion-buttons">
             <button className="download-button" onClick={downloadResults}>
@@ -343,7 +504,7 @@ export function SyncPage() {
               <h2>Upload Results JSON?</h2>
               <p>This will <strong>replace all existing synced results</strong> with the uploaded file.</p>
               <p>You currently have <strong>{Object.keys(syncedResults).length} synced events</strong> that will be lost.</p>
-              <p className="modal-warning">This action cannot be undone!</p>
+              <p className="modal-warning">You can revert the upload with Undo (Ctrl+Z).</p>
               <div className="modal-buttons">
                 <button className="modal-cancel" onClick={handleUploadCancel}>
                   Cancel
@@ -378,16 +539,30 @@ export function SyncPage() {
           >
             <PitchSVG
               frameData={frameData}
-              event={currentEvent}
+              event={displayEvent}
               teamIds={metadata?.teamIds || []}
               currentTime={currentTime}
               frameOffset={frameOffset}
+              lineup={metadata?.lineup}
+              pitch={metadata?.pitch}
             />
             {isCurrentSynced && (
               <div className="synced-overlay">[ALREADY SYNCED]</div>
             )}
+            {currentSkipRecord && (
+              <div className="synced-overlay skipped-overlay">[SKIPPED: {SKIP_REASON_LABELS[currentSkipRecord.reason].toUpperCase()}]</div>
+            )}
           </div>
 
+          {/* Detector curve (e.g. ball-player distance) */}
+          {suggestion?.curve && (
+            <DetectorChart
+              curve={suggestion.curve}
+              currentFrameIdx={frameIdx}
+              suggestedFrameIdx={suggestion.frameIdx}
+            />
+          )}
+
           {/* Sync/Skip buttons - directly under pitch */}
           <div className="action-buttons">
             <button
@@ -395,7 +570,7 @@ export function SyncPage() {
               disabled={noTrackingData}
               className="sync-button"
             >
-              ✓ Sync & Next
+              {currentGroupLinked ? `✓ Sync ${currentGroup.indices.length} Linked & Next` : '✓ Sync & Next'}
             </button>
             <button
               onClick={handleSyncToPrevious}
@@ -405,10 +580,29 @@ export function SyncPage() {
             >
               ⏮ Sync to Previous
             </button>
-            <button onClick={skipEvent} className="skip-button">
-              ⏭ Skip
-            </button>
+            <div className="skip-controls">
+              <select
+                className="skip-reason-select"
+                value={skipReason}
+                onChange={(e) => setSkipReason(e.target.value as SkipReason)}
+                title="Reason recorded for the skipped event"
+              >
+                {Object.entries(SKIP_REASON_LABELS).map(([reason, label]) => (
+                  <option key={reason} value={reason}>{label}</option>
+                ))}
+              </select>
+              <button onClick={handleSkip} className="skip-button">
+                ⏭ Skip
+              </button>
+            </div>
           </div>
+          <input
+            type="text"
+            className="sync-note-input"
+            value={syncNote}
+            onChange={(e) => setSyncNote(e.target.value)}
+            placeholder="Optional note for this sync or skip"
+          />
 
           {/* Frame navigation */}
           <div className="frame-navigation">
@@ -416,8 +610,9 @@ export function SyncPage() {
               frameOffset={frameOffset}
               onOffsetChange={setFrameOffset}
               disabled={noTrackingData}
-              minOffset={-250}
-              maxOffset={250}
+              frameTimes={periodTimes}
+              baseFrameIdx={baseFrameIdx}
+              suggestedOffset={suggestedOffset}
             />
             <div className="button-row">
               <button onClick={() => adjustFrameOffset(-10)} disabled={noTrackingData}>-10</button>
@@ -428,6 +623,15 @@ export function SyncPage() {
               <button onClick={() => adjustFrameOffset(10)} disabled={noTrackingData}>+10</button>
             </div>
           </div>
+
+          {/* Tracking quality per period */}
+          {qualityReport && (
+            <QualityTimeline
+              report={qualityReport}
+              currentPeriod={currentEvent?.period_id ?? null}
+              currentTime={currentTime}
+            />
+          )}
         </div>
 
         {/* Right: Event info side panel */}
@@ -436,7 +640,21 @@ export function SyncPage() {
           <div className="info-section">
             <div className="info-label">Progress</div>
             <div className="info-value">{currentEventIndex + 1} / {eventsData?.numRows ?? 0}</div>
-            <div className="info-subtext">{Object.keys(syncedResults).length} synced</div>
+            <div className="info-subtext">
+              {Object.keys(syncedResults).length} synced · {Object.keys(skippedEvents).length} skipped
+            </div>
+          </div>
+
+          {/* Annotator */}
+          <div className="info-section annotator-section">
+            <div className="info-label">Annotator</div>
+            <input
+              type="text"
+              className="annotator-input"
+              value={annotator}
+              onChange={(e) => setAnnotator(e.target.value)}
+              placeholder="Your name"
+            />
           </div>
 
           {/* Event details */}
@@ -446,12 +664,53 @@ export function SyncPage() {
             <div className="info-subtext">ID: {currentEvent?.opta_event_id ?? '—'}</div>
           </div>
 
+          {/* Player & team */}
+          <div className="info-section">
+            <div className="info-label">Player</div>
+            <div className="info-value">
+              {currentEvent && currentEvent.jersey_no !== null && currentEvent.jersey_no !== undefined ? `#${currentEvent.jersey_no}` : '—'}
+              {currentPlayer && ` ${currentPlayer.name}`}
+            </div>
+            <div className="info-subtext">
+              {currentTeamName ?? `Team ${currentEvent?.team_id ?? '—'}`}
+              {currentPlayer?.position && ` · ${currentPlayer.position}`}
+              {currentPlayer && currentPlayer.subOn !== null && ` · on ${currentPlayer.subOn}'`}
+              {currentPlayer && currentPlayer.subOff !== null && ` · off ${currentPlayer.subOff}'`}
+            </div>
+          </div>
+
           {/* Period & Time */}
           <div className="info-section">
             <div className="info-label">Period</div>
             <div className="info-value">{currentEvent?.period_id ?? '—'}</div>
           </div>
 
+          {/* Orientation - tracking stays as recorded, events of the team attacking right to left are mirrored onto it */}
+          <div className="info-section orientation-section">
+            <div className="info-label">Orientation</div>
+            <div className="info-value">{isEventMirrored ? 'Event mirrored' : 'Event as recorded'}</div>
+            <div className="info-subtext">
+              {detectedDirection ? `Attacking ${detectedDirection === 'right' ? 'left → right' : 'right → left'} in tracking` : 'Direction not detected'}
+              {isPeriodFlipped && ' · flipped manually'}
+            </div>
+            <label className="orientation-flip">
+              <input type="checkbox" checked={isPeriodFlipped} onChange={togglePeriodFlip} disabled={!currentEvent} />
+              Flip for this period
+            </label>
+          </div>
+
+          {/* Tracking problems near the event */}
+          {eventQualitySpans.length > 0 && (
+            <div className="info-section status-warning">
+              <div className="info-label">Tracking Issues</div>
+              {eventQualitySpans.map(span => (
+                <div key={`${span.kind}-${span.startTime}`} className="info-subtext">
+                  ⚠ {QUALITY_ISSUE_LABELS[span.kind]}{span.detail && ` · ${span.detail}`}
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="info-section">
             <div className="info-label">Event Time</div>
             <div className="info-value">{currentEvent?.matched_time ?? '—'}ms</div>
@@ -471,9 +730,113 @@ export function SyncPage() {
           <div className="info-section">
             <div className="info-label">Current Frame</div>
             <div className="info-value">{frameIdx + 1} / {totalFrames}</div>
-            <div className="info-subtext">{frameOffset >= 0 ? '+' : ''}{frameOffset} frames</div>
+            <div className="info-subtext">
+              {frameOffset >= 0 ? '+' : ''}{frameOffset} frames
+              {gapBeforeFrame && ` · after a ${((gapBeforeFrame.endTime - gapBeforeFrame.startTime) / 1000).toFixed(2)}s gap`}
+            </div>
           </div>
 
+          {/* Frame rate detected from the time between frames */}
+          <div className={`info-section${frameRate && (frameRate.gaps.length > 0 || frameRate.irregularCount > 0) ? ' status-warning' : ''}`}>
+            <div className="info-label">Frame Rate</div>
+            <div className="info-value">{frameRate && frameRate.fps > 0 ? `${Math.round(frameRate.fps * 10) / 10} fps` : '—'}</div>
+            <div className="info-subtext">
+              {frameRate && frameRate.gaps.length > 0 && `${frameRate.gaps.length} ${frameRate.gaps.length === 1 ? 'gap' : 'gaps'} (longest ${(Math.max(...frameRate.gaps.map(gap => gap.endTime - gap.startTime)) / 1000).toFixed(2)}s)`}
+              {frameRate && frameRate.gaps.length > 0 && frameRate.irregularCount > 0 && ' · '}
+              {frameRate && frameRate.irregularCount > 0 && `${frameRate.irregularCount} irregular frame intervals`}
+              {frameRate && frameRate.gaps.length === 0 && frameRate.irregularCount === 0 && 'Evenly spaced'}
+            </div>
+          </div>
+
+          {currentSyncRecord && (
+            <div className="info-section sync-record-section">
+              <div className="info-label">Synced</div>
+              <div className="info-value">{currentSyncRecord.time}ms</div>
+              <div className="info-subtext">
+                {currentSyncRecord.method}
+                {currentSyncRecord.annotator ? ` by ${currentSyncRecord.annotator}` : ''}
+                {' · '}{new Date(currentSyncRecord.timestamp).toLocaleString()}
+              </div>
+              {currentSyncRecord.note && (
+                <div className="info-subtext">“{currentSyncRecord.note}”</div>
+              )}
+              <button className="clear-sync-btn" onClick={clearCurrentSync}>
+                ✕ Clear Sync
+              </button>
+            </div>
+          )}
+
+          {currentGroup && (
+            <div className={`info-section linked-group-section${currentGroupLinked ? '' : ' unlinked'}`}>
+              <div className="info-label">{currentGroupLinked ? '🔗 Linked Group' : 'Unlinked Group'}</div>
+              <ul className="linked-group-list">
+                {currentGroup.indices.map(index => {
+                  const event = getEventRow(index);
+                  return (
+                    <li
+                      key={index}
+                      className={index === currentEventIndex ? 'current' : ''}
+                      onClick={() => jumpToEvent(index)}
+                    >
+                      #{index + 1} {event?.event_type_desc || event?.event_type_id} · team {event?.team_id}
+                    </li>
+                  );
+                })}
+              </ul>
+              <div className="info-subtext">
+                {currentGroupLinked ? 'Synced together to one frame' : 'Each event is synced on its own'}
+              </div>
+              <button className="clear-sync-btn" onClick={() => setGroupLinked(currentGroup.key, !currentGroupLinked)}>
+                {currentGroupLinked ? '✂ Unlink' : '🔗 Relink'}
+              </button>
+            </div>
+          )}
+
+          {currentSkipRecord && (
+            <div className="info-section skip-record-section">
+              <div className="info-label">Skipped</div>
+              <div className="info-value">{SKIP_REASON_LABELS[currentSkipRecord.reason]}</div>
+              <div className="info-subtext">
+                {currentSkipRecord.annotator ? `by ${currentSkipRecord.annotator} · ` : ''}
+                {new Date(currentSkipRecord.timestamp).toLocaleString()}
+              </div>
+              {currentSkipRecord.note && (
+                <div className="info-subtext">“{currentSkipRecord.note}”</div>
+              )}
+              <button className="clear-sync-btn" onClick={clearCurrentSync}>
+                ✕ Clear Skip
+              </button>
+            </div>
+          )}
+
+          {/* Undo/redo */}
+          <div className="info-section">
+            <div className="info-label">History</div>
+            <div className="nav-buttons">
+              <button onClick={undo} disabled={undoLabel === null} title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}>
+                ↶ Undo
+              </button>
+              <button onClick={redo} disabled={redoLabel === null} title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+                ↷ Redo
+              </button>
+            </div>
+          </div>
+
+          {suggestion && suggestedOffset !== null && (
+            <div className="info-section suggestion-section">
+              <div className="info-label">Suggested Frame</div>
+              <div className="info-value">{suggestedOffset >= 0 ? '+' : ''}{suggestedOffset} frames</div>
+              <div className="info-subtext">
+                {suggestion.time}ms · {Math.round(suggestion.confidence * 100)}% confidence
+              </div>
+              {currentGroupLinked && (
+                <div className="info-subtext">Applies to all {currentGroup.indices.length} linked events</div>
+              )}
+              <button className="accept-suggestion-btn" onClick={handleAcceptSuggestion}>
+                ✓ Accept (A)
+              </button>
+            </div>
+          )}
 
           {noTrackingData && (
             <div className="info-section status-warning">
@@ -503,6 +866,52 @@ export function SyncPage() {
             </div>
           </div>
 
+          {/* Batch pre-sync and review queue */}
+          <div className="info-section presync-section">
+            <div className="info-label">Pre-sync</div>
+            <div className="presync-controls">
+              <label>
+                Accept ≥
+                <input
+                  type="number"
+                  value={preSyncThreshold}
+                  onChange={(e) => setPreSyncThreshold(Number(e.target.value))}
+                  min={0}
+                  max={100}
+                />
+                %
+              </label>
+              <button onClick={handlePreSync} disabled={preSyncProgress !== null}>
+                {preSyncProgress !== null ? `${preSyncProgress}%` : '⚡ Pre-sync All'}
+              </button>
+            </div>
+            {reviewQueue.length > 0 && (
+              <>
+                <div className="info-subtext">{reviewQueue.length} to review (lowest confidence first)</div>
+                <ul className="review-queue">
+                  {reviewQueue.map(item => (
+                    <li
+                      key={item.eventId}
+                      className={item.eventIndex === currentEventIndex ? 'current' : ''}
+                    >
+                      <button className="review-queue-item" onClick={() => jumpToEvent(item.eventIndex)}>
+                        <span>#{item.eventIndex + 1} {String(eventsData?.columns['event_type_desc']?.[item.eventIndex] ?? '')}</span>
+                        <span className="review-queue-confidence">{Math.round(item.confidence * 100)}%</span>
+                      </button>
+                      <button
+                        className="review-queue-dismiss"
+                        onClick={() => dismissReviewItem(item.eventId)}
+                        title="Remove from review queue"
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+
           {/* Actions */}
           <div className="info-section actions-section">
             <button className="download-button" onClick={downloadResults}>
@@ -558,7 +967,7 @@ export function SyncPage() {
             <h2>Upload Results JSON?</h2>
             <p>This will <strong>replace all existing synced results</strong> with the uploaded file.</p>
             <p>You currently have <strong>{Object.keys(syncedResults).length} synced events</strong> that will be lost.</p>
-            <p className="modal-warning">This action cannot be undone!</p>
+            <p className="modal-warning">You can revert the upload with Undo (Ctrl+Z).</p>
             <div className="modal-buttons">
               <button className="modal-cancel" onClick={handleUploadCancel}>
                 Cancel
@@ -1,23 +1,44 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import type { DragEvent, ChangeEvent } from 'react';
 import { useSyncContext } from '../context/SyncContext';
-import type { ColumnarData, Metadata } from '../types';
-import { realToOptaArrays } from '../utils/optaConverter';
+import { NUMERIC_TRACKING_COLUMNS, HOME_TEAM_ID, AWAY_TEAM_ID, isNullAt } from '../types';
+import type { Column, ColumnarData, EventFilterProfile, Lineup, Metadata, NumericColumnType, PitchDimensions, QualityReport } from '../types';
+import { convertArrays, DEFAULT_PITCH } from '../utils/coordinates';
+import { parseTracabMetadata } from '../utils/tracab';
+import { parseSecondSpectrumMetadata } from '../utils/secondSpectrum';
+import { parseMetricaEvents, METRICA_PITCH } from '../utils/metrica';
+import { parseOptaF24 } from '../utils/optaF24';
+import { parseStatsBombEvents } from '../utils/statsbomb';
+import { toTypedColumns, getTransferables } from '../utils/columns';
+import { applyColumnMapping, hasRequiredFields, TRACKING_FIELDS, EVENT_FIELDS } from '../utils/columnMapping';
+import type { ColumnMapping, ColumnPreset, DatasetKind } from '../utils/columnMapping';
+import { loadColumnPresets, saveColumnPreset, deleteColumnPreset, loadEventFilter, saveEventFilter } from '../utils/db';
+import { DEFAULT_EVENT_FILTER, filterEvents } from '../utils/eventFilter';
+import { parseLineupJson, parseLineupCsv, getLineupJerseys, createLineupLookup } from '../utils/lineup';
+import { validateSyncData, hasBlockingIssues } from '../utils/validation';
+import type { GameSources } from '../utils/validation';
+import { readZipFile } from '../utils/zip';
+import { classifyBundleFiles, extractGameId } from '../utils/bundle';
+import { DEFAULT_KINEMATICS, KINEMATICS_FILTER_LABELS } from '../utils/kinematics';
+import type { KinematicsFilter, KinematicsOptions } from '../utils/kinematics';
+import { ColumnMappingStep } from './ColumnMappingStep';
+import { ValidationReportPanel } from './ValidationReportPanel';
+import { EventFilterEditor } from './EventFilterEditor';
 
 // Import Web Worker
 import ParquetWorker from '../workers/parquetWorker?worker';
 
-// Convert tracking data pos_x and pos_y from real coordinates to Opta coordinates
-function convertTrackingToOpta(data: ColumnarData): ColumnarData {
-  const posXCol = data.columns['pos_x'] as number[];
-  const posYCol = data.columns['pos_y'] as number[];
+// Convert tracking data pos_x and pos_y from meters (from the center spot) to Opta coordinates
+function convertTrackingToOpta(data: ColumnarData, pitch: PitchDimensions = DEFAULT_PITCH): ColumnarData {
+  const posXCol = data.columns['pos_x'] as ArrayLike<number>;
+  const posYCol = data.columns['pos_y'] as ArrayLike<number>;
 
   if (!posXCol || !posYCol) {
     console.warn('Tracking data missing pos_x or pos_y columns, skipping conversion');
     return data;
   }
 
-  const { x: optaX, y: optaY } = realToOptaArrays(posXCol, posYCol);
+  const { x: optaX, y: optaY } = convertArrays(posXCol, posYCol, 'metric-centered', 'opta', pitch);
 
   return {
     ...data,
@@ -29,76 +50,34 @@ function convertTrackingToOpta(data: ColumnarData): ColumnarData {
   };
 }
 
-// Filter events to only include syncable events
-// - Must have x and y coordinates
-// - Must be in period 1 or 2
-// - Must be specific event types
-const SYNCABLE_EVENT_TYPES = new Set([1, 5, 49, 12, 44, 6, 8, 13, 14, 15, 16, 2]);
-
-function filterEventsToSync(data: ColumnarData): ColumnarData {
-  const xCol = data.columns['x'] as (number | null)[];
-  const yCol = data.columns['y'] as (number | null)[];
-  const periodCol = data.columns['period_id'] as number[];
-  const eventTypeCol = data.columns['event_type_id'] as number[];
-
-  if (!xCol || !yCol || !periodCol || !eventTypeCol) {
-    console.warn('Events data missing required columns for filtering');
-    return data;
-  }
-
-  // Find indices that match the filter criteria
-  const validIndices: number[] = [];
-  for (let i = 0; i < data.numRows; i++) {
-    const x = xCol[i];
-    const y = yCol[i];
-    const period = periodCol[i];
-    const eventType = eventTypeCol[i];
-
-    if (
-      x !== null && x !== undefined && !Number.isNaN(x) &&
-      y !== null && y !== undefined && !Number.isNaN(y) &&
-      (period === 1 || period === 2) &&
-      SYNCABLE_EVENT_TYPES.has(eventType)
-    ) {
-      validIndices.push(i);
-    }
-  }
-
-  // Create filtered columnar data
-  const filteredColumns: Record<string, unknown[]> = {};
-  for (const fieldName of data.fieldNames) {
-    const col = data.columns[fieldName];
-    filteredColumns[fieldName] = validIndices.map(i => col[i]);
-  }
-
-  return {
-    columns: filteredColumns,
-    numRows: validIndices.length,
-    fieldNames: data.fieldNames
-  };
-}
-
-// Map jersey numbers from tracking data to events
-// Uses player_opta_id from tracking to match player_id in events
-function mapJerseyNumbersToEvents(events: ColumnarData, tracking: ColumnarData): ColumnarData {
-  // Build mapping from player_opta_id to jersey_no from tracking data
+// Player ID -> jersey number from tracking player_opta_id (null if tracking has no player IDs)
+function getTrackingJerseys(tracking: ColumnarData): Map<number, number> | null {
   const playerOptaIdCol = tracking.columns['player_opta_id'] as number[];
   const trackingJerseyCol = tracking.columns['jersey_no'] as number[];
 
   if (!playerOptaIdCol || !trackingJerseyCol) {
-    console.warn('Tracking data missing player_opta_id or jersey_no columns');
-    return events;
+    return null;
   }
 
   const playerJerseyMap = new Map<number, number>();
   for (let i = 0; i < tracking.numRows; i++) {
     const playerId = playerOptaIdCol[i];
-    const jerseyNo = trackingJerseyCol[i];
     if (playerId !== null && playerId !== undefined && playerId !== -1 &&
-        jerseyNo !== null && jerseyNo !== undefined) {
-      playerJerseyMap.set(playerId, jerseyNo);
+        !isNullAt(tracking, 'jersey_no', i)) {
+      playerJerseyMap.set(playerId, trackingJerseyCol[i]);
     }
   }
+  return playerJerseyMap;
+}
+
+// Map jersey numbers to events
+// Uses player_opta_id from tracking to match player_id in events, or the lineup file when tracking has no player IDs
+function mapJerseyNumbersToEvents(events: ColumnarData, tracking: ColumnarData, lineup: Lineup | null): ColumnarData {
+  const playerJerseyMap = getTrackingJerseys(tracking) ?? (lineup ? getLineupJerseys(lineup) : null);
+  if (!playerJerseyMap) {
+    console.warn('Tracking data missing player_opta_id or jersey_no columns and no lineup uploaded');
+    return events;
+  }
 
   // Map jersey numbers to events using player_id
   const eventPlayerIdCol = events.columns['player_id'] as number[];
@@ -107,13 +86,15 @@ function mapJerseyNumbersToEvents(events: ColumnarData, tracking: ColumnarData):
     return events;
   }
 
+  // Events without a match keep their own jersey number (e.g. Metrica events only have jerseys)
+  const eventJerseyCol = events.columns['jersey_no'] as (number | null)[] | undefined;
   const mappedJerseyNos: (number | null)[] = new Array(events.numRows);
   for (let i = 0; i < events.numRows; i++) {
     const playerId = eventPlayerIdCol[i];
     if (playerId !== null && playerId !== undefined && playerJerseyMap.has(playerId)) {
       mappedJerseyNos[i] = playerJerseyMap.get(playerId)!;
     } else {
-      mappedJerseyNos[i] = null;
+      mappedJerseyNos[i] = eventJerseyCol?.[i] ?? null;
     }
   }
 
@@ -132,11 +113,83 @@ function mapJerseyNumbersToEvents(events: ColumnarData, tracking: ColumnarData):
   };
 }
 
+// Unique team IDs in a column (ignores nulls and the ball's -1)
+function getTeamIds(data: ColumnarData, column: string): number[] {
+  const col = data.columns[column] as ArrayLike<number>;
+  if (!col) return [];
+
+  const teamIds = new Set<number>();
+  for (let i = 0; i < data.numRows; i++) {
+    if (!isNullAt(data, column, i) && col[i] !== -1) {
+      teamIds.add(col[i]);
+    }
+  }
+  return [...teamIds];
+}
+
+// Replace tracking team IDs using a mapping (tracking team ID -> events team ID)
+function remapTrackingTeams(data: ColumnarData, mapping: Record<number, number>): ColumnarData {
+  const teamCol = data.columns['team_opta_id'] as ArrayLike<number>;
+  const remapped = new Int32Array(data.numRows);
+  for (let i = 0; i < data.numRows; i++) {
+    remapped[i] = mapping[teamCol[i]] ?? teamCol[i];
+  }
+
+  return {
+    ...data,
+    columns: {
+      ...data.columns,
+      team_opta_id: remapped,
+    }
+  };
+}
+
+// Display name for a tracking team ID
+function trackingTeamLabel(teamId: number): string {
+  if (teamId === HOME_TEAM_ID) return 'Home';
+  if (teamId === AWAY_TEAM_ID) return 'Away';
+  return `Team ${teamId}`;
+}
+
+// First file with the given extension
+function findFile(files: File[], extension: string): File | undefined {
+  return files.find(f => f.name.toLowerCase().endsWith(extension));
+}
+
+// Parsed upload - data is the raw parquet table when its columns still need mapping
+interface LoadedFile {
+  file: File;
+  data: ColumnarData;
+  needsMapping?: boolean;
+  pitch?: PitchDimensions; // Tracking pitch size, when the source provides one
+  qualityReport?: QualityReport | null; // Tracking quality scan from the worker
+}
+
+// Columns sent back by the worker, plus the quality report for tracking
+interface WorkerResult {
+  data: ColumnarData;
+  qualityReport: QualityReport | null;
+}
+
+// Parquet file waiting for the user to map its columns
+interface PendingMapping {
+  kind: DatasetKind;
+  file: File;
+  data: ColumnarData;
+}
+
+type UploadKind = DatasetKind | 'lineup';
+
 interface FileUploadState {
+  bundle: File | null;
   tracking: File | null;
   events: File | null;
+  lineup: File | null;
   trackingParsed: ColumnarData | null;
+  pitch: PitchDimensions | null; // Tracking pitch size, null when the source doesn't provide one
+  qualityReport: QualityReport | null;
   eventsParsed: ColumnarData | null;
+  lineupParsed: Lineup | null;
   isLoading: boolean;
   error: string | null;
   progress: number;
@@ -145,15 +198,26 @@ interface FileUploadState {
 export function UploadPage() {
   const { saveData } = useSyncContext();
   const [state, setState] = useState<FileUploadState>({
+    bundle: null,
     tracking: null,
     events: null,
+    lineup: null,
     trackingParsed: null,
+    pitch: null,
+    qualityReport: null,
     eventsParsed: null,
+    lineupParsed: null,
     isLoading: false,
     error: null,
     progress: 0,
   });
 
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
+  const [columnPresets, setColumnPresets] = useState<ColumnPreset[]>([]);
+  const [eventFilter, setEventFilter] = useState<EventFilterProfile>(DEFAULT_EVENT_FILTER);
+  // Smoothing for the speed/acceleration columns added to tracking - off unless chosen, they cost memory per row
+  const [kinematics, setKinematics] = useState<KinematicsOptions | null>(null);
+
   const workerRef = useRef<Worker | null>(null);
   const requestIdRef = useRef(0);
 
@@ -166,7 +230,24 @@ export function UploadPage() {
     };
   }, []);
 
-  const parseParquetFile = useCallback((file: File): Promise<ColumnarData> => {
+  // Start from the last used event filter
+  useEffect(() => {
+    loadEventFilter()
+      .then(profile => {
+        if (profile) setEventFilter(profile);
+      })
+      .catch(error => console.error('Failed to load event filter:', error));
+  }, []);
+
+  // Load saved column mapping presets
+  useEffect(() => {
+    loadColumnPresets()
+      .then(setColumnPresets)
+      .catch(error => console.error('Failed to load column presets:', error));
+  }, []);
+
+  // Run a parse request in the worker and collect the columns it sends back
+  const parseInWorker = useCallback((message: Record<string, unknown>, transfer: Transferable[] = []): Promise<WorkerResult> => {
     return new Promise((resolve, reject) => {
       if (!workerRef.current) {
         reject(new Error('Worker not initialized'));
@@ -178,7 +259,9 @@ export function UploadPage() {
       // Accumulate columns as they arrive
       let numRows = 0;
       let fieldNames: string[] = [];
-      const columns: Record<string, unknown[]> = {};
+      const columns: Record<string, Column> = {};
+      const nullMasks: Record<string, Uint8Array> = {};
+      let qualityReport: QualityReport | null = null;
 
       const handleMessage = (e: MessageEvent) => {
         if (e.data.id !== id) return;
@@ -192,12 +275,17 @@ export function UploadPage() {
         } else if (e.data.type === 'column') {
           // Received a column - store it
           columns[e.data.fieldName] = e.data.data;
+          if (e.data.nulls) {
+            nullMasks[e.data.fieldName] = e.data.nulls;
+          }
+        } else if (e.data.type === 'quality') {
+          qualityReport = e.data.report;
         } else if (e.data.type === 'success') {
           workerRef.current?.removeEventListener('message', handleMessage);
           setState(prev => ({ ...prev, progress: 100 }));
 
           // Return columnar data directly - no row conversion needed
-          resolve({ columns, numRows, fieldNames });
+          resolve({ data: { columns, nullMasks, numRows, fieldNames }, qualityReport });
         } else if (e.data.type === 'error') {
           workerRef.current?.removeEventListener('message', handleMessage);
           reject(new Error(e.data.error));
@@ -205,96 +293,209 @@ export function UploadPage() {
       };
 
       workerRef.current.addEventListener('message', handleMessage);
-
-      // Read file and send to worker
-      file.arrayBuffer().then(buffer => {
-        workerRef.current?.postMessage({
-          type: 'parse',
-          id,
-          data: buffer
-        }, [buffer]); // Transfer buffer to worker
-      }).catch(reject);
+      workerRef.current.postMessage({ ...message, id }, transfer);
     });
   }, []);
 
-  const handleFileDrop = useCallback(async (e: DragEvent<HTMLDivElement>, type: 'tracking' | 'events') => {
-    e.preventDefault();
-    const file = e.dataTransfer.files[0];
-    if (!file || !file.name.endsWith('.parquet')) {
-      setState(prev => ({ ...prev, error: 'Please upload a .parquet file' }));
-      return;
+  // Tracking files are post-processed in the worker (kinematics, quality scan) - events pass no tracking options
+  const parseParquetFile = useCallback(async (
+    file: File,
+    numericColumns?: Record<string, NumericColumnType>,
+    tracking?: { kinematics: KinematicsOptions | null; pitch?: PitchDimensions }
+  ): Promise<WorkerResult> => {
+    // Read file and transfer the buffer to the worker
+    const buffer = await file.arrayBuffer();
+    return parseInWorker({ type: 'parse', data: buffer, numericColumns, tracking }, [buffer]);
+  }, [parseInWorker]);
+
+  // Post-process tracking parsed on the main thread (positions still in meters) - its buffers move to the worker and back
+  const postProcessTracking = useCallback((data: ColumnarData): Promise<WorkerResult> => {
+    return parseInWorker({ type: 'post-process-tracking', data, tracking: { kinematics } }, getTransferables(data));
+  }, [parseInWorker, kinematics]);
+
+  // Parse tracking files into Opta coordinates - a parquet file, or a raw feed with its metadata file
+  // (TRACAB .dat + .xml, Second Spectrum .jsonl + .json, Metrica home + away .csv)
+  const loadTrackingFiles = useCallback(async (files: File[]): Promise<LoadedFile> => {
+    const parquet = findFile(files, '.parquet');
+    if (parquet) {
+      const { data, qualityReport } = await parseParquetFile(parquet, NUMERIC_TRACKING_COLUMNS, { kinematics });
+      if (!hasRequiredFields(data, TRACKING_FIELDS)) {
+        return { file: parquet, data, needsMapping: true };
+      }
+      return { file: parquet, data: convertTrackingToOpta(data), qualityReport };
+    }
+
+    const dat = findFile(files, '.dat');
+    const xml = findFile(files, '.xml');
+    if (dat && xml) {
+      // DOMParser only exists on the main thread - the .dat file itself is streamed in the worker
+      const meta = parseTracabMetadata(await xml.text());
+      const pitch = { length: meta.pitchLength, width: meta.pitchWidth };
+      const { data, qualityReport } = await parseInWorker({ type: 'parse-tracab', file: dat, meta, tracking: { kinematics, pitch } });
+      return { file: dat, data: convertTrackingToOpta(data, pitch), pitch, qualityReport };
+    }
+    if (dat) {
+      throw new Error('TRACAB .dat files need their .xml metadata file - select both files');
+    }
+
+    const jsonl = findFile(files, '.jsonl');
+    const json = findFile(files, '.json');
+    if (jsonl && json) {
+      const meta = parseSecondSpectrumMetadata(await json.text());
+      const pitch = { length: meta.pitchLength, width: meta.pitchWidth };
+      const { data, qualityReport } = await parseInWorker({ type: 'parse-second-spectrum', file: jsonl, meta, tracking: { kinematics, pitch } });
+      return { file: jsonl, data: convertTrackingToOpta(data, pitch), pitch, qualityReport };
     }
+    if (jsonl) {
+      throw new Error('Second Spectrum .jsonl files need their .json metadata file - select both files');
+    }
+
+    const csvFiles = files.filter(f => f.name.toLowerCase().endsWith('.csv'));
+    if (csvFiles.length === 2) {
+      const { data, qualityReport } = await parseInWorker({
+        type: 'parse-metrica',
+        files: csvFiles,
+        pitch: METRICA_PITCH,
+        tracking: { kinematics, pitch: METRICA_PITCH },
+      });
+      return { file: csvFiles[0], data: convertTrackingToOpta(data, METRICA_PITCH), pitch: METRICA_PITCH, qualityReport };
+    }
+    if (csvFiles.length > 0) {
+      throw new Error('Metrica tracking comes as two .csv files (home and away) - select both files');
+    }
+
+    throw new Error('Please upload a .parquet file, a TRACAB .dat file with its .xml metadata, a Second Spectrum .jsonl file with its .json metadata, or Metrica home/away .csv files');
+  }, [parseInWorker, parseParquetFile, kinematics]);
 
+  // Parse events files - a parquet file, an Opta F24 .xml, StatsBomb .json or Metrica events .csv
+  const loadEventsFiles = useCallback(async (files: File[]): Promise<LoadedFile> => {
+    const parquet = findFile(files, '.parquet');
+    if (parquet) {
+      const { data } = await parseParquetFile(parquet);
+      if (!hasRequiredFields(data, EVENT_FIELDS)) {
+        return { file: parquet, data, needsMapping: true };
+      }
+      return { file: parquet, data };
+    }
+
+    const xml = findFile(files, '.xml');
+    if (xml) {
+      return { file: xml, data: parseOptaF24(await xml.text()) };
+    }
+
+    const json = findFile(files, '.json');
+    if (json) {
+      return { file: json, data: parseStatsBombEvents(await json.text()) };
+    }
+
+    const csv = findFile(files, '.csv');
+    if (csv) {
+      return { file: csv, data: parseMetricaEvents(await csv.text()) };
+    }
+
+    throw new Error('Please upload a .parquet file, an Opta F24 .xml file, a StatsBomb .json file or a Metrica events .csv file');
+  }, [parseParquetFile]);
+
+  // Parse an optional lineup file - .json or .csv
+  const loadLineupFile = useCallback(async (files: File[]): Promise<{ file: File; lineup: Lineup }> => {
+    const json = findFile(files, '.json');
+    if (json) {
+      return { file: json, lineup: parseLineupJson(await json.text()) };
+    }
+
+    const csv = findFile(files, '.csv');
+    if (csv) {
+      return { file: csv, lineup: parseLineupCsv(await csv.text()) };
+    }
+
+    throw new Error('Please upload a lineup .json or .csv file');
+  }, []);
+
+  // Keep a parsed tracking/events file, or hold it back until its columns are mapped
+  const storeLoaded = useCallback((type: DatasetKind, { file, data, needsMapping, pitch, qualityReport }: LoadedFile) => {
+    if (needsMapping) {
+      setPendingMapping({ kind: type, file, data });
+    } else if (type === 'tracking') {
+      setState(prev => ({ ...prev, tracking: file, trackingParsed: data, pitch: pitch ?? null, qualityReport: qualityReport ?? null }));
+    } else {
+      setState(prev => ({ ...prev, events: file, eventsParsed: data }));
+    }
+  }, []);
+
+  // Unpack a match bundle .zip and load the tracking, events and lineup files found in it
+  const handleBundle = useCallback(async (zip: File) => {
     setState(prev => ({ ...prev, isLoading: true, error: null, progress: 0 }));
+    setPendingMapping(null);
 
     try {
-      let data = await parseParquetFile(file);
-
-      if (type === 'tracking') {
-        // Convert tracking positions from real coordinates to Opta coordinates
-        data = convertTrackingToOpta(data);
-
-        setState(prev => ({
-          ...prev,
-          tracking: file,
-          trackingParsed: data,
-          isLoading: false,
-        }));
-      } else {
-        // Filter events to only include syncable events
-        data = filterEventsToSync(data);
-
-        setState(prev => ({
-          ...prev,
-          events: file,
-          eventsParsed: data,
-          isLoading: false,
-        }));
+      const bundle = classifyBundleFiles(await readZipFile(zip));
+
+      // Parquet files without a name hint are sorted by their columns - parsed once, then used as is
+      const detected: Partial<Record<DatasetKind, LoadedFile>> = {};
+      for (const file of bundle.unknown) {
+        const { data } = await parseParquetFile(file);
+        if (!detected.tracking && hasRequiredFields(data, TRACKING_FIELDS)) {
+          const processed = await postProcessTracking(toTypedColumns(data));
+          detected.tracking = { file, data: convertTrackingToOpta(processed.data), qualityReport: processed.qualityReport };
+        } else if (!detected.events && hasRequiredFields(data, EVENT_FIELDS)) {
+          detected.events = { file, data };
+        } else {
+          console.warn(`Skipping ${file.name} from ${zip.name}: columns match neither tracking nor events`);
+        }
       }
+
+      const tracking = detected.tracking ?? (bundle.tracking.length > 0 ? await loadTrackingFiles(bundle.tracking) : null);
+      const events = detected.events ?? (bundle.events.length > 0 ? await loadEventsFiles(bundle.events) : null);
+      const lineup = bundle.lineup.length > 0 ? await loadLineupFile(bundle.lineup) : null;
+      if (!tracking || !events) {
+        throw new Error(`No ${tracking ? 'events' : 'tracking'} files found - name them e.g. tracking_<game>.parquet and events_<game>.parquet`);
+      }
+      if (tracking.needsMapping && events.needsMapping) {
+        throw new Error('Neither the tracking nor the events columns could be recognized - upload the files separately to map their columns');
+      }
+
+      storeLoaded('tracking', tracking);
+      storeLoaded('events', events);
+      setState(prev => ({
+        ...prev,
+        bundle: zip,
+        lineup: lineup?.file ?? null,
+        lineupParsed: lineup?.lineup ?? null,
+        isLoading: false,
+      }));
     } catch (error) {
       setState(prev => ({
         ...prev,
         isLoading: false,
-        error: `Failed to parse ${type} file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error: `Failed to load bundle ${zip.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
       }));
     }
-  }, [parseParquetFile]);
+  }, [parseParquetFile, postProcessTracking, loadTrackingFiles, loadEventsFiles, loadLineupFile, storeLoaded]);
 
-  const handleFileSelect = useCallback(async (e: ChangeEvent<HTMLInputElement>, type: 'tracking' | 'events') => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleFiles = useCallback(async (files: File[], type: UploadKind) => {
+    if (files.length === 0) return;
 
-    if (!file.name.endsWith('.parquet')) {
-      setState(prev => ({ ...prev, error: 'Please upload a .parquet file' }));
+    // A match bundle can be dropped on any zone
+    const zip = findFile(files, '.zip');
+    if (zip) {
+      await handleBundle(zip);
       return;
     }
 
     setState(prev => ({ ...prev, isLoading: true, error: null, progress: 0 }));
+    setPendingMapping(prev => (prev?.kind === type ? null : prev));
 
     try {
-      let data = await parseParquetFile(file);
-
-      if (type === 'tracking') {
-        // Convert tracking positions from real coordinates to Opta coordinates
-        data = convertTrackingToOpta(data);
-
-        setState(prev => ({
-          ...prev,
-          tracking: file,
-          trackingParsed: data,
-          isLoading: false,
-        }));
-      } else {
-        // Filter events to only include syncable events
-        data = filterEventsToSync(data);
-
-        setState(prev => ({
-          ...prev,
-          events: file,
-          eventsParsed: data,
-          isLoading: false,
-        }));
+      if (type === 'lineup') {
+        const { file, lineup } = await loadLineupFile(files);
+        setState(prev => ({ ...prev, lineup: file, lineupParsed: lineup, isLoading: false }));
+        return;
       }
+
+      const loaded = type === 'tracking' ? await loadTrackingFiles(files) : await loadEventsFiles(files);
+      storeLoaded(type, loaded);
+      // Replacing a file on its own means the data no longer comes from the bundle
+      setState(prev => ({ ...prev, bundle: null, isLoading: false }));
     } catch (error) {
       setState(prev => ({
         ...prev,
@@ -302,38 +503,155 @@ export function UploadPage() {
         error: `Failed to parse ${type} file: ${error instanceof Error ? error.message : 'Unknown error'}`,
       }));
     }
-  }, [parseParquetFile]);
+  }, [loadTrackingFiles, loadEventsFiles, loadLineupFile, storeLoaded, handleBundle]);
+
+  // Rename the pending file's columns, then convert/filter it like a parquet file with the expected columns
+  const handleApplyMapping = useCallback(async (mapping: ColumnMapping) => {
+    if (!pendingMapping) return;
+
+    const { kind, file, data } = pendingMapping;
+    const mapped = applyColumnMapping(data, mapping);
+    setPendingMapping(null);
+    if (kind !== 'tracking') {
+      setState(prev => ({ ...prev, events: file, eventsParsed: mapped }));
+      return;
+    }
+
+    setState(prev => ({ ...prev, isLoading: true, error: null, progress: 0 }));
+    try {
+      const { data: tracking, qualityReport } = await postProcessTracking(toTypedColumns(mapped));
+      setState(prev => ({
+        ...prev,
+        tracking: file,
+        trackingParsed: convertTrackingToOpta(tracking),
+        pitch: null,
+        qualityReport,
+        isLoading: false,
+      }));
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: `Failed to process tracking file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }));
+    }
+  }, [pendingMapping, postProcessTracking]);
+
+  const handleSavePreset = useCallback(async (name: string, mapping: ColumnMapping) => {
+    if (!pendingMapping) return;
+
+    const preset: ColumnPreset = { name, kind: pendingMapping.kind, mapping };
+    try {
+      await saveColumnPreset(preset);
+      setColumnPresets(prev => [...prev.filter(p => p.kind !== preset.kind || p.name !== name), preset]);
+    } catch (error) {
+      console.error('Failed to save column preset:', error);
+    }
+  }, [pendingMapping]);
+
+  const handleDeletePreset = useCallback(async (name: string) => {
+    if (!pendingMapping) return;
+
+    const { kind } = pendingMapping;
+    try {
+      await deleteColumnPreset(kind, name);
+      setColumnPresets(prev => prev.filter(p => p.kind !== kind || p.name !== name));
+    } catch (error) {
+      console.error('Failed to delete column preset:', error);
+    }
+  }, [pendingMapping]);
+
+  const handleFileDrop = useCallback((e: DragEvent<HTMLDivElement>, type: UploadKind) => {
+    e.preventDefault();
+    handleFiles(Array.from(e.dataTransfer.files), type);
+  }, [handleFiles]);
+
+  const handleFileSelect = useCallback((e: ChangeEvent<HTMLInputElement>, type: UploadKind) => {
+    handleFiles(Array.from(e.target.files ?? []), type);
+  }, [handleFiles]);
+
+  // Tracking feeds that only know home/away (or use their own IDs) need their teams mapped to the events' team IDs
+  const trackingTeamIds = useMemo(
+    () => (state.trackingParsed ? getTeamIds(state.trackingParsed, 'team_opta_id') : []),
+    [state.trackingParsed]
+  );
+  const eventTeamIds = useMemo(
+    () => (state.eventsParsed ? getTeamIds(state.eventsParsed, 'team_id') : []),
+    [state.eventsParsed]
+  );
+  const needsTeamMapping = eventTeamIds.length > 0 && trackingTeamIds.some(id => !eventTeamIds.includes(id));
+
+  const lineupLookup = useMemo(() => createLineupLookup(state.lineupParsed), [state.lineupParsed]);
+
+  const [teamMappingChoice, setTeamMappingChoice] = useState<Record<number, number>>({});
+
+  // Chosen mapping, defaulting to the events' teams in order
+  const teamMapping = useMemo(() => {
+    const mapping: Record<number, number> = {};
+    trackingTeamIds.forEach((id, i) => {
+      mapping[id] = teamMappingChoice[id] ?? eventTeamIds[Math.min(i, eventTeamIds.length - 1)];
+    });
+    return mapping;
+  }, [trackingTeamIds, eventTeamIds, teamMappingChoice]);
+
+  const isTeamMappingValid = !needsTeamMapping || new Set(Object.values(teamMapping)).size === trackingTeamIds.length;
+
+  // Events left after the event filter
+  const filteredEvents = useMemo(
+    () => (state.eventsParsed ? filterEvents(state.eventsParsed, eventFilter) : null),
+    [state.eventsParsed, eventFilter]
+  );
+
+  // Data as it will be saved - tracking teams mapped, jersey numbers mapped onto events - and its validation report
+  const prepared = useMemo(() => {
+    if (!state.trackingParsed || !filteredEvents || !isTeamMappingValid) return null;
+
+    const tracking = needsTeamMapping ? remapTrackingTeams(state.trackingParsed, teamMapping) : state.trackingParsed;
+    const teamIds = getTeamIds(tracking, 'team_opta_id');
+
+    // Map jersey numbers from tracking to events using player_id -> player_opta_id
+    const events = mapJerseyNumbersToEvents(filteredEvents, tracking, state.lineupParsed);
+
+    // Game IDs in the file names and the original team IDs, to warn when the files come from different games
+    const sources: GameSources = {
+      gameIds: [state.bundle, state.tracking, state.events, state.lineup].flatMap(file => {
+        const gameId = file ? extractGameId(file.name) : null;
+        return file && gameId ? [{ fileName: file.name, gameId }] : [];
+      }),
+      trackingTeamIds,
+      eventTeamIds,
+    };
+
+    return { tracking, events, teamIds, report: validateSyncData(tracking, events, teamIds, state.lineupParsed, sources) };
+  }, [
+    state.bundle, state.tracking, state.events, state.lineup, state.trackingParsed, state.lineupParsed,
+    filteredEvents, isTeamMappingValid, needsTeamMapping, teamMapping, trackingTeamIds, eventTeamIds,
+  ]);
 
   const handleStartSync = useCallback(async () => {
-    if (!state.trackingParsed || !state.eventsParsed || !state.tracking) {
+    if (!prepared || !state.tracking) {
       setState(prev => ({ ...prev, error: 'Please upload both files first' }));
       return;
     }
+    if (hasBlockingIssues(prepared.report)) return;
 
     setState(prev => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      // Extract game UUID from filename (remove extension)
-      const gameUuid = state.tracking.name.replace('.parquet', '').replace('tracking_', '').replace('events_', '');
-
-      // Extract team IDs from tracking data (columnar format)
-      const teamOptaIdCol = state.trackingParsed.columns['team_opta_id'] as number[];
-      const uniqueTeamIds = [...new Set(teamOptaIdCol)].filter(id => id !== -1 && id !== undefined && id !== null);
-
-      if (uniqueTeamIds.length < 2) {
-        setState(prev => ({ ...prev, error: 'Could not detect two teams from tracking data', isLoading: false }));
-        return;
-      }
+      // Extract game UUID from filename (remove extension) - the bundle's name when the files came in one
+      const gameUuid = (state.bundle ?? state.tracking).name.replace(/\.[^.]+$/, '').replace('tracking_', '').replace('events_', '');
 
       const metadata: Metadata = {
         gameUuid,
-        teamIds: uniqueTeamIds.slice(0, 2) as number[],
+        teamIds: prepared.teamIds.slice(0, 2),
+        eventFilter,
+        lineup: state.lineupParsed ?? undefined,
+        pitch: state.pitch ?? undefined,
+        qualityReport: state.qualityReport ?? undefined,
       };
 
-      // Map jersey numbers from tracking to events using player_id -> player_opta_id
-      const eventsWithJersey = mapJerseyNumbersToEvents(state.eventsParsed, state.trackingParsed);
-
-      await saveData(state.trackingParsed, eventsWithJersey, metadata);
+      saveEventFilter(eventFilter).catch(error => console.error('Failed to save event filter:', error));
+      await saveData(prepared.tracking, prepared.events, metadata);
     } catch (error) {
       setState(prev => ({
         ...prev,
@@ -341,18 +659,18 @@ export function UploadPage() {
         error: `Failed to save data: ${error instanceof Error ? error.message : 'Unknown error'}`,
       }));
     }
-  }, [state.trackingParsed, state.eventsParsed, state.tracking, saveData]);
+  }, [prepared, state.bundle, state.tracking, state.lineupParsed, state.pitch, state.qualityReport, eventFilter, saveData]);
 
   const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
   };
 
-  const canStart = state.trackingParsed && state.eventsParsed && !state.isLoading;
+  const canStart = prepared && !hasBlockingIssues(prepared.report) && !pendingMapping && !state.isLoading;
 
   return (
     <div className="upload-page">
       <h1>Event Tracking Sync Tool</h1>
-      <p className="subtitle">Upload your parquet files to begin syncing events with tracking data</p>
+      <p className="subtitle">Upload your tracking and events files to begin syncing</p>
 
       {state.error && (
         <div className="error-message">
@@ -375,11 +693,15 @@ export function UploadPage() {
               <span className="row-count">{state.trackingParsed?.numRows.toLocaleString()} rows</span>
             </div>
           ) : (
-            <p>Drag & drop or click to select</p>
+            <>
+              <p>Drag & drop or click to select</p>
+              <p className="format-hint">.parquet, TRACAB .dat + .xml, Second Spectrum .jsonl + .json, or Metrica home + away .csv</p>
+            </>
           )}
           <input
             type="file"
-            accept=".parquet"
+            accept=".parquet,.dat,.xml,.jsonl,.json,.csv,.zip"
+            multiple
             onChange={(e) => handleFileSelect(e, 'tracking')}
             className="file-input"
           />
@@ -399,17 +721,153 @@ export function UploadPage() {
               <span className="row-count">{state.eventsParsed?.numRows.toLocaleString()} rows</span>
             </div>
           ) : (
-            <p>Drag & drop or click to select</p>
+            <>
+              <p>Drag & drop or click to select</p>
+              <p className="format-hint">.parquet, Opta F24 .xml, StatsBomb .json, or Metrica events .csv</p>
+            </>
           )}
           <input
             type="file"
-            accept=".parquet"
+            accept=".parquet,.xml,.json,.csv,.zip"
             onChange={(e) => handleFileSelect(e, 'events')}
             className="file-input"
           />
         </div>
+
+        {/* Optional lineup file upload */}
+        <div
+          className={`upload-zone ${state.lineup ? 'uploaded' : ''}`}
+          onDrop={(e) => handleFileDrop(e, 'lineup')}
+          onDragOver={handleDragOver}
+        >
+          <div className="upload-icon">📋</div>
+          <h3>Lineup (optional)</h3>
+          {state.lineup && state.lineupParsed ? (
+            <div className="file-info">
+              <span className="file-name">{state.lineup.name}</span>
+              <span className="row-count">
+                {state.lineupParsed.teams.map(team => `${team.name} (${team.players.length})`).join(' · ')}
+              </span>
+            </div>
+          ) : (
+            <>
+              <p>Drag & drop or click to select</p>
+              <p className="format-hint">Team and player names as .json or .csv</p>
+            </>
+          )}
+          <input
+            type="file"
+            accept=".json,.csv,.zip"
+            onChange={(e) => handleFileSelect(e, 'lineup')}
+            className="file-input"
+          />
+        </div>
+      </div>
+
+      {/* Match bundle upload - one .zip with tracking, events and an optional lineup */}
+      <div
+        className={`upload-zone bundle-zone ${state.bundle ? 'uploaded' : ''}`}
+        onDrop={(e) => handleFileDrop(e, 'tracking')}
+        onDragOver={handleDragOver}
+      >
+        <span className="upload-icon">📦</span>
+        {state.bundle ? (
+          <span className="file-name">{state.bundle.name}</span>
+        ) : (
+          <p>Or drop a match bundle <span className="format-hint">.zip with tracking, events and an optional lineup</span></p>
+        )}
+        <input
+          type="file"
+          accept=".zip"
+          onChange={(e) => handleFileSelect(e, 'tracking')}
+          className="file-input"
+        />
       </div>
 
+      {/* Derived speed/acceleration columns - applied to the next tracking upload */}
+      <div className="kinematics-options">
+        <label>
+          Speed & acceleration
+          <select
+            value={kinematics?.filter ?? 'off'}
+            onChange={(e) => {
+              const filter = e.target.value;
+              setKinematics(prev => filter === 'off' ? null : { ...(prev ?? DEFAULT_KINEMATICS), filter: filter as KinematicsFilter });
+            }}
+          >
+            <option value="off">Off</option>
+            {Object.entries(KINEMATICS_FILTER_LABELS).map(([filter, label]) => (
+              <option key={filter} value={filter}>{label}</option>
+            ))}
+          </select>
+        </label>
+        {kinematics && (
+          <label>
+            Window
+            <input
+              type="number"
+              min={100}
+              max={2000}
+              step={100}
+              value={kinematics.windowMs}
+              onChange={(e) => setKinematics(prev => prev && { ...prev, windowMs: Number(e.target.value) || DEFAULT_KINEMATICS.windowMs })}
+            />
+            ms
+          </label>
+        )}
+        <span className="format-hint">Applied to the next tracking upload</span>
+      </div>
+
+      {pendingMapping && (
+        <ColumnMappingStep
+          key={`${pendingMapping.kind}:${pendingMapping.file.name}`}
+          kind={pendingMapping.kind}
+          fileName={pendingMapping.file.name}
+          data={pendingMapping.data}
+          presets={columnPresets.filter(p => p.kind === pendingMapping.kind)}
+          onApply={handleApplyMapping}
+          onCancel={() => setPendingMapping(null)}
+          onSavePreset={handleSavePreset}
+          onDeletePreset={handleDeletePreset}
+        />
+      )}
+
+      {needsTeamMapping && (
+        <div className="team-mapping">
+          <h3>Team Mapping</h3>
+          <p>The tracking team IDs don't match the events. Pick the events team for each tracking team.</p>
+          {trackingTeamIds.map(id => (
+            <label key={id} className="team-mapping-row">
+              <span>{trackingTeamLabel(id)}</span>
+              <select
+                value={teamMapping[id]}
+                onChange={(e) => setTeamMappingChoice(prev => ({ ...prev, [id]: Number(e.target.value) }))}
+              >
+                {eventTeamIds.map(teamId => (
+                  <option key={teamId} value={teamId}>
+                    {lineupLookup.teamName(teamId) ? `${lineupLookup.teamName(teamId)} (${teamId})` : teamId}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+          {!isTeamMappingValid && (
+            <p className="team-mapping-error">Each tracking team must map to a different events team</p>
+          )}
+        </div>
+      )}
+
+      {state.eventsParsed && filteredEvents && (
+        <EventFilterEditor
+          events={state.eventsParsed}
+          selectedCount={filteredEvents.numRows}
+          profile={eventFilter}
+          onChange={setEventFilter}
+        />
+      )}
+
+      {prepared && !pendingMapping && <ValidationReportPanel report={prepared.report} />}
+
       {state.isLoading && (
         <div className="loading">
           <div className="spinner"></div>
@@ -0,0 +1,71 @@
+import type { ValidationReport } from '../utils/validation';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+}
+
+// Pre-sync validation results - blocking issues disable "Start Syncing"
+export function ValidationReportPanel({ report }: ValidationReportPanelProps) {
+  const blockingCount = report.issues.filter(issue => issue.severity === 'blocking').length;
+  const warningCount = report.issues.length - blockingCount;
+  const isGameMismatch = report.issues.some(issue => issue.sameGame);
+
+  // Blocking issues first
+  const issues = [...report.issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'blocking' ? -1 : 1));
+
+  return (
+    <div className="validation-report">
+      <h3>Data Check</h3>
+      {isGameMismatch && (
+        <div className="validation-mismatch">
+          ⚠ These files may not belong to the same game - check the warnings below before syncing
+        </div>
+      )}
+      {report.issues.length === 0 ? (
+        <p className="validation-ok">✓ No problems found</p>
+      ) : (
+        <p>
+          {blockingCount > 0 && `${blockingCount} blocking ${blockingCount === 1 ? 'issue' : 'issues'}`}
+          {blockingCount > 0 && warningCount > 0 && ' · '}
+          {warningCount > 0 && `${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}`}
+        </p>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="validation-issues">
+          {issues.map((issue, i) => (
+            <li key={i} className={`validation-issue ${issue.severity}`}>
+              <span className="validation-severity">{issue.severity === 'blocking' ? 'Blocking' : 'Warning'}</span>
+              <div>
+                <div>{issue.message}</div>
+                {issue.detail && <div className="validation-detail">{issue.detail}</div>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <details className="validation-null-rates">
+        <summary>Null rates per column</summary>
+        <table>
+          <thead>
+            <tr>
+              <th>Data</th>
+              <th>Column</th>
+              <th>Nulls</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.nullRates.map(rate => (
+              <tr key={`${rate.dataset}:${rate.column}`} className={rate.nullCount > 0 ? 'has-nulls' : undefined}>
+                <td>{rate.dataset}</td>
+                <td><code>{rate.column}</code></td>
+                <td>{rate.nullCount.toLocaleString()} ({(rate.nullRate * 100).toFixed(1)}%)</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
 import type { ReactNode } from 'react';
 import {
   loadTrackingData,
@@ -6,13 +6,38 @@ import {
   loadMetadata,
   loadSyncedResults,
   saveSyncedResults,
+  loadSkippedEvents,
+  saveSkippedEvents,
+  loadUnlinkedGroups,
+  saveUnlinkedGroups,
+  loadReviewQueue,
+  saveReviewQueue,
+  loadAnnotator,
+  saveAnnotator,
+  loadHistory,
+  saveHistory,
   saveTrackingData,
   saveEventsData,
   saveMetadata,
   clearAllData,
   hasStoredData,
 } from '../utils/db';
-import type { ColumnarData, SyncedResults, Metadata, AppState } from '../types';
+import { buildFrameIndex, getFrameOffset, getOffsetTime } from '../utils/frameIndex';
+import { runPresync, splitProposals } from '../utils/presync';
+import { createSyncRecord, createSkipRecord, serializeSyncResults } from '../utils/syncResults';
+import { EMPTY_HISTORY, createHistoryEntry, applyHistoryEntry, pushHistoryEntry } from '../utils/history';
+import type { SyncHistory, HistoryPosition, ResultsSnapshot } from '../utils/history';
+import { detectLinkedGroups } from '../utils/linkedGroups';
+import type { EventGroup } from '../utils/linkedGroups';
+import type { ColumnarData, FrameIndex, SyncedResults, SkippedEvents, SkipReason, SyncMethod, SyncDetector, Metadata, AppState, PresyncProposal, QualityReport } from '../types';
+
+// Options for syncing the current event
+export interface SyncOptions {
+  method?: SyncMethod;       // Defaults to 'manual'
+  note?: string;
+  detector?: SyncDetector;
+  confidence?: number;
+}
 
 interface SyncContextType extends AppState {
   // Data loading
@@ -31,15 +56,42 @@ interface SyncContextType extends AppState {
   // Frame navigation
   adjustFrameOffset: (delta: number) => void;
 
+  // Linked groups - syncing one event of a linked group syncs all of them
+  getEventGroup: (eventIndex: number) => EventGroup | null; // Detected group, whether linked or not
+  isGroupLinked: (key: string) => boolean;
+  setGroupLinked: (key: string, linked: boolean) => Promise<void>;
+
+  // Manual override of the detected attacking directions, saved with the match metadata
+  setPeriodFlipped: (period: number, flipped: boolean) => Promise<void>;
+
   // Sync actions
-  syncCurrentEvent: (currentTime: number) => void;
-  skipEvent: () => void;
+  syncCurrentEvent: (currentTime: number, options?: SyncOptions) => void;
+  skipEvent: (reason: SkipReason, note?: string) => void;
+  clearCurrentSync: () => void; // Removes the current event's synced time or skip status
+
+  // Undo/redo
+  undoLabel: string | null; // Label of the action undo would revert, null if nothing to undo
+  redoLabel: string | null;
+  undo: () => void;
+  redo: () => void;
 
   // Export
   downloadResults: () => void;
 
   // Import
-  uploadResults: (results: SyncedResults) => Promise<void>;
+  uploadResults: (results: SyncedResults, skipped: SkippedEvents) => Promise<void>;
+
+  // Annotator name recorded with each sync
+  annotator: string;
+  setAnnotator: (name: string) => void;
+
+  // Batch pre-sync
+  preSyncProgress: number | null; // null when no pre-sync is running
+  preSyncAll: (threshold: number) => Promise<void>;
+  dismissReviewItem: (eventId: string) => Promise<void>;
+
+  // Tracking quality scan from the upload, null for sessions saved before the scan existed
+  qualityReport: QualityReport | null;
 }
 
 const SyncContext = createContext<SyncContextType | null>(null);
@@ -59,35 +111,29 @@ interface SyncProviderProps {
 export function SyncProvider({ children }: SyncProviderProps) {
   const [eventsData, setEventsData] = useState<ColumnarData | null>(null);
   const [trackingData, setTrackingData] = useState<ColumnarData | null>(null);
+  const [frameIndex, setFrameIndex] = useState<FrameIndex | null>(null);
   const [metadata, setMetadata] = useState<Metadata | null>(null);
   const [syncedResults, setSyncedResults] = useState<SyncedResults>({});
+  const [skippedEvents, setSkippedEvents] = useState<SkippedEvents>({});
+  const [reviewQueue, setReviewQueue] = useState<PresyncProposal[]>([]);
+  const [preSyncProgress, setPreSyncProgress] = useState<number | null>(null);
+  const [annotator, setAnnotatorState] = useState('');
+  const [history, setHistory] = useState<SyncHistory>(EMPTY_HISTORY);
+  const [unlinkedGroups, setUnlinkedGroups] = useState<string[]>([]);
   const [currentEventIndex, setCurrentEventIndex] = useState(0);
   const [frameOffset, setFrameOffset] = useState(0);
-  const [lastSyncOffset, setLastSyncOffset] = useState(0);
+  const [lastSyncOffsetMs, setLastSyncOffsetMs] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [hasData, setHasData] = useState(false);
 
 
-  // Helper to get unique period times from tracking data
-  const getPeriodTimes = useCallback((tracking: ColumnarData, periodId: number): number[] => {
-    const periodCol = tracking.columns['period_id'] as number[];
-    const timeCol = tracking.columns['matched_time'] as number[];
-    const times = new Set<number>();
-    for (let i = 0; i < tracking.numRows; i++) {
-      if (periodCol[i] === periodId) {
-        times.add(timeCol[i]);
-      }
-    }
-    return [...times].sort((a, b) => a - b);
-  }, []);
-
-  // Find first unsynced event starting from given index
-  const findFirstUnsynced = useCallback((startIndex: number, events: ColumnarData, results: SyncedResults): number => {
+  // Find first event that is neither synced nor skipped, starting from given index
+  const findFirstUnsynced = useCallback((startIndex: number, events: ColumnarData, results: SyncedResults, skipped: SkippedEvents): number => {
     const eventIdCol = events.columns['opta_event_id'];
     let index = startIndex;
     while (index < events.numRows) {
       const eventId = String(eventIdCol?.[index] ?? index);
-      if (!(eventId in results)) {
+      if (!(eventId in results) && !(eventId in skipped)) {
         break;
       }
       index++;
@@ -95,9 +141,69 @@ export function SyncProvider({ children }: SyncProviderProps) {
     return index;
   }, []);
 
-  // Update frame offset for current event (restore saved offset if synced)
-  const updateOffsetForEvent = useCallback((eventIndex: number, events: ColumnarData, tracking: ColumnarData, results: SyncedResults, fallbackOffset: number): number => {
-    if (eventIndex >= events.numRows) return fallbackOffset;
+  // Drop review queue entries for events that now have a synced time or were skipped
+  const pruneReviewQueue = useCallback((queue: PresyncProposal[], results: SyncedResults, skipped: SkippedEvents): PresyncProposal[] => {
+    return queue.filter(p => !(p.eventId in results) && !(p.eventId in skipped));
+  }, []);
+
+  // Auto-detected linked groups by event index
+  const groupByEvent = useMemo(() => {
+    const map = new Map<number, EventGroup>();
+    if (!eventsData) return map;
+    for (const group of detectLinkedGroups(eventsData)) {
+      for (const index of group.indices) map.set(index, group);
+    }
+    return map;
+  }, [eventsData]);
+
+  const getEventGroup = useCallback((eventIndex: number): EventGroup | null => {
+    return groupByEvent.get(eventIndex) ?? null;
+  }, [groupByEvent]);
+
+  const isGroupLinked = useCallback((key: string) => !unlinkedGroups.includes(key), [unlinkedGroups]);
+
+  // Unlink or relink an auto-detected group
+  const setGroupLinked = useCallback(async (key: string, linked: boolean) => {
+    const newUnlinked = linked ? unlinkedGroups.filter(k => k !== key) : [...unlinkedGroups, key];
+    setUnlinkedGroups(newUnlinked);
+    try {
+      await saveUnlinkedGroups(newUnlinked);
+    } catch (error) {
+      console.error('Failed to save unlinked groups:', error);
+    }
+  }, [unlinkedGroups]);
+
+  // Flip or restore the detected attacking directions of a period
+  const setPeriodFlipped = useCallback(async (period: number, flipped: boolean) => {
+    if (!metadata) return;
+    const others = (metadata.flippedPeriods ?? []).filter(p => p !== period);
+    const newMetadata = { ...metadata, flippedPeriods: flipped ? [...others, period] : others };
+    setMetadata(newMetadata);
+    try {
+      await saveMetadata(newMetadata);
+    } catch (error) {
+      console.error('Failed to save flipped periods:', error);
+    }
+  }, [metadata]);
+
+  // Frame offset of a sync time relative to an event's matched_time frame
+  const getEventFrameOffset = useCallback((eventIndex: number, events: ColumnarData, index: FrameIndex, time: number): number | null => {
+    const periodIdCol = events.columns['period_id'] as number[];
+    const matchedTimeCol = events.columns['matched_time'] as number[];
+    return getFrameOffset(index, periodIdCol[eventIndex], matchedTimeCol[eventIndex], time);
+  }, []);
+
+  // Time offset of the frame `frameOffset` frames from an event's matched_time frame
+  const getEventOffsetTime = useCallback((eventIndex: number, events: ColumnarData, index: FrameIndex, frameOffset: number): number => {
+    const periodIdCol = events.columns['period_id'] as number[];
+    const matchedTimeCol = events.columns['matched_time'] as number[];
+    return getOffsetTime(index, periodIdCol[eventIndex], matchedTimeCol[eventIndex], frameOffset) ?? 0;
+  }, []);
+
+  // Frame offset for an event - its saved sync if synced, otherwise the carried time offset
+  // Carrying time rather than frames keeps the offset right across periods with different frame rates or dropped frames
+  const updateOffsetForEvent = useCallback((eventIndex: number, events: ColumnarData, index: FrameIndex, results: SyncedResults, fallbackOffsetMs: number): number => {
+    if (eventIndex >= events.numRows) return 0;
 
     const eventIdCol = events.columns['opta_event_id'];
     const periodIdCol = events.columns['period_id'] as number[];
@@ -107,20 +213,9 @@ export function SyncProvider({ children }: SyncProviderProps) {
     const eventPeriod = periodIdCol[eventIndex];
     const eventTime = matchedTimeCol[eventIndex];
 
-    if (eventId in results) {
-      const syncedTime = results[eventId];
-      const periodTimes = getPeriodTimes(tracking, eventPeriod);
-
-      if (periodTimes.length === 0) return fallbackOffset;
-
-      const baseIdx = periodTimes.findIndex(t => t >= eventTime);
-      const syncIdx = periodTimes.findIndex(t => t >= syncedTime);
-
-      return syncIdx - (baseIdx >= 0 ? baseIdx : 0);
-    }
-
-    return fallbackOffset;
-  }, [getPeriodTimes]);
+    const time = eventId in results ? results[eventId].time : eventTime + fallbackOffsetMs;
+    return getFrameOffset(index, eventPeriod, eventTime, time) ?? 0;
+  }, []);
 
   // Load data from IndexedDB on mount
   const loadFromStorage = useCallback(async () => {
@@ -128,25 +223,35 @@ export function SyncProvider({ children }: SyncProviderProps) {
     try {
       const hasData = await hasStoredData();
       if (hasData) {
-        const [tracking, events, meta, results] = await Promise.all([
+        const [tracking, events, meta, results, skipped, unlinked, queue, savedHistory] = await Promise.all([
           loadTrackingData(),
           loadEventsData(),
           loadMetadata(),
           loadSyncedResults(),
+          loadSkippedEvents(),
+          loadUnlinkedGroups(),
+          loadReviewQueue(),
+          loadHistory(),
         ]);
 
         if (tracking && events) {
+          const index = buildFrameIndex(tracking);
           setTrackingData(tracking);
+          setFrameIndex(index);
           setEventsData(events);
           setMetadata(meta);
           setSyncedResults(results);
+          setSkippedEvents(skipped);
+          setUnlinkedGroups(unlinked);
+          setReviewQueue(queue);
+          setHistory(savedHistory);
 
           // Skip to first unsynced event
-          const firstUnsynced = findFirstUnsynced(0, events, results);
+          const firstUnsynced = findFirstUnsynced(0, events, results, skipped);
           setCurrentEventIndex(firstUnsynced);
 
           // Update frame offset
-          const offset = updateOffsetForEvent(firstUnsynced, events, tracking, results, 0);
+          const offset = updateOffsetForEvent(firstUnsynced, events, index, results, 0);
           setFrameOffset(offset);
 
           setHasData(true);
@@ -171,15 +276,23 @@ export function SyncProvider({ children }: SyncProviderProps) {
         saveTrackingData(tracking),
         saveEventsData(events),
         saveMetadata(meta),
+        saveSkippedEvents({}),
+        saveUnlinkedGroups([]),
+        saveHistory(EMPTY_HISTORY),
       ]);
 
       setTrackingData(tracking);
+      setFrameIndex(buildFrameIndex(tracking));
       setEventsData(events);
       setMetadata(meta);
       setSyncedResults({});
+      setSkippedEvents({});
+      setUnlinkedGroups([]);
+      setReviewQueue([]);
+      setHistory(EMPTY_HISTORY);
       setCurrentEventIndex(0);
       setFrameOffset(0);
-      setLastSyncOffset(0);
+      setLastSyncOffsetMs(0);
       setHasData(true);
     } catch (error) {
       console.error('Failed to save data:', error);
@@ -193,12 +306,17 @@ export function SyncProvider({ children }: SyncProviderProps) {
     try {
       await clearAllData();
       setTrackingData(null);
+      setFrameIndex(null);
       setEventsData(null);
       setMetadata(null);
       setSyncedResults({});
+      setSkippedEvents({});
+      setUnlinkedGroups([]);
+      setReviewQueue([]);
+      setHistory(EMPTY_HISTORY);
       setCurrentEventIndex(0);
       setFrameOffset(0);
-      setLastSyncOffset(0);
+      setLastSyncOffsetMs(0);
       setHasData(false);
     } catch (error) {
       console.error('Failed to reset data:', error);
@@ -208,75 +326,200 @@ export function SyncProvider({ children }: SyncProviderProps) {
 
   // Navigation functions
   const nextEvent = useCallback(() => {
-    if (!eventsData || !trackingData) return;
+    if (!eventsData || !frameIndex) return;
     const newIndex = Math.min(eventsData.numRows - 1, currentEventIndex + 1);
     setCurrentEventIndex(newIndex);
-    const offset = updateOffsetForEvent(newIndex, eventsData, trackingData, syncedResults, lastSyncOffset);
+    const offset = updateOffsetForEvent(newIndex, eventsData, frameIndex, syncedResults, lastSyncOffsetMs);
     setFrameOffset(offset);
-  }, [currentEventIndex, eventsData, trackingData, syncedResults, lastSyncOffset, updateOffsetForEvent]);
+  }, [currentEventIndex, eventsData, frameIndex, syncedResults, lastSyncOffsetMs, updateOffsetForEvent]);
 
   const prevEvent = useCallback(() => {
-    if (!eventsData || !trackingData) return;
+    if (!eventsData || !frameIndex) return;
     const newIndex = Math.max(0, currentEventIndex - 1);
     setCurrentEventIndex(newIndex);
-    const offset = updateOffsetForEvent(newIndex, eventsData, trackingData, syncedResults, lastSyncOffset);
+    const offset = updateOffsetForEvent(newIndex, eventsData, frameIndex, syncedResults, lastSyncOffsetMs);
     setFrameOffset(offset);
-  }, [currentEventIndex, eventsData, trackingData, syncedResults, lastSyncOffset, updateOffsetForEvent]);
+  }, [currentEventIndex, eventsData, frameIndex, syncedResults, lastSyncOffsetMs, updateOffsetForEvent]);
 
   const nextUnsynced = useCallback(() => {
-    if (!eventsData || !trackingData) return;
-    const newIndex = findFirstUnsynced(currentEventIndex + 1, eventsData, syncedResults);
+    if (!eventsData || !frameIndex) return;
+    const newIndex = findFirstUnsynced(currentEventIndex + 1, eventsData, syncedResults, skippedEvents);
     setCurrentEventIndex(newIndex);
-    const offset = updateOffsetForEvent(newIndex, eventsData, trackingData, syncedResults, lastSyncOffset);
+    const offset = updateOffsetForEvent(newIndex, eventsData, frameIndex, syncedResults, lastSyncOffsetMs);
     setFrameOffset(offset);
-  }, [currentEventIndex, eventsData, trackingData, syncedResults, lastSyncOffset, findFirstUnsynced, updateOffsetForEvent]);
+  }, [currentEventIndex, eventsData, frameIndex, syncedResults, skippedEvents, lastSyncOffsetMs, findFirstUnsynced, updateOffsetForEvent]);
 
   const jumpToEvent = useCallback((index: number) => {
-    if (!eventsData || !trackingData) return;
+    if (!eventsData || !frameIndex) return;
     const newIndex = Math.max(0, Math.min(eventsData.numRows - 1, index));
     setCurrentEventIndex(newIndex);
-    const offset = updateOffsetForEvent(newIndex, eventsData, trackingData, syncedResults, lastSyncOffset);
+    const offset = updateOffsetForEvent(newIndex, eventsData, frameIndex, syncedResults, lastSyncOffsetMs);
     setFrameOffset(offset);
-  }, [eventsData, trackingData, syncedResults, lastSyncOffset, updateOffsetForEvent]);
+  }, [eventsData, frameIndex, syncedResults, lastSyncOffsetMs, updateOffsetForEvent]);
 
   const adjustFrameOffset = useCallback((delta: number) => {
     setFrameOffset(prev => prev + delta);
   }, []);
 
+  // Push an undoable action onto the history and persist it
+  const recordHistory = useCallback(async (label: string, before: ResultsSnapshot, after: ResultsSnapshot, beforePosition: HistoryPosition, afterPosition: HistoryPosition) => {
+    const newHistory = pushHistoryEntry(history, createHistoryEntry(label, before, after, beforePosition, afterPosition));
+    setHistory(newHistory);
+    await saveHistory(newHistory);
+  }, [history]);
+
   // Sync current event
-  const syncCurrentEvent = useCallback(async (currentTime: number) => {
-    if (!eventsData || !trackingData) return;
+  const syncCurrentEvent = useCallback(async (currentTime: number, options: SyncOptions = {}) => {
+    if (!eventsData || !frameIndex) return;
     if (currentEventIndex >= eventsData.numRows) return;
 
+    const { method = 'manual', note, detector, confidence } = options;
     const eventIdCol = eventsData.columns['opta_event_id'];
-    const eventId = String(eventIdCol?.[currentEventIndex] ?? currentEventIndex);
-
-    const newResults = { ...syncedResults, [eventId]: currentTime };
+    const newResults = { ...syncedResults };
+    const newSkipped = { ...skippedEvents };
+    const group = getEventGroup(currentEventIndex);
+    const indices = group && isGroupLinked(group.key) ? group.indices : [currentEventIndex];
+    for (const index of indices) {
+      const eventId = String(eventIdCol?.[index] ?? index);
+      const offset = getEventFrameOffset(index, eventsData, frameIndex, currentTime);
+      newResults[eventId] = createSyncRecord(currentTime, method, annotator, offset, { note, detector, confidence });
+      delete newSkipped[eventId];
+    }
     setSyncedResults(newResults);
     await saveSyncedResults(newResults);
 
-    // Save current offset for next event
-    setLastSyncOffset(frameOffset);
+    if (Object.keys(newSkipped).length !== Object.keys(skippedEvents).length) {
+      setSkippedEvents(newSkipped);
+      await saveSkippedEvents(newSkipped);
+    }
+
+    const newQueue = pruneReviewQueue(reviewQueue, newResults, newSkipped);
+    if (newQueue.length !== reviewQueue.length) {
+      setReviewQueue(newQueue);
+      await saveReviewQueue(newQueue);
+    }
+
+    // Save current time offset for next event
+    const offsetMs = currentTime - (eventsData.columns['matched_time'] as number[])[currentEventIndex];
+    setLastSyncOffsetMs(offsetMs);
 
     // Move to next unsynced event
-    const newIndex = findFirstUnsynced(currentEventIndex + 1, eventsData, newResults);
+    const newIndex = findFirstUnsynced(currentEventIndex + 1, eventsData, newResults, newSkipped);
     setCurrentEventIndex(newIndex);
-    const offset = updateOffsetForEvent(newIndex, eventsData, trackingData, newResults, frameOffset);
+    const offset = updateOffsetForEvent(newIndex, eventsData, frameIndex, newResults, offsetMs);
     setFrameOffset(offset);
-  }, [currentEventIndex, eventsData, syncedResults, frameOffset, trackingData, findFirstUnsynced, updateOffsetForEvent]);
 
-  // Skip event
-  const skipEvent = useCallback(() => {
-    if (!eventsData || !trackingData) return;
-    const newIndex = findFirstUnsynced(currentEventIndex + 1, eventsData, syncedResults);
+    await recordHistory(
+      indices.length > 1 ? `Sync ${indices.length} linked events` : 'Sync event',
+      { results: syncedResults, skipped: skippedEvents, reviewQueue },
+      { results: newResults, skipped: newSkipped, reviewQueue: newQueue },
+      { eventIndex: currentEventIndex, frameOffset, lastSyncOffsetMs },
+      { eventIndex: newIndex, frameOffset: offset, lastSyncOffsetMs: offsetMs }
+    );
+  }, [currentEventIndex, eventsData, syncedResults, skippedEvents, reviewQueue, frameOffset, lastSyncOffsetMs, frameIndex, annotator, getEventGroup, isGroupLinked, findFirstUnsynced, getEventFrameOffset, pruneReviewQueue, updateOffsetForEvent, recordHistory]);
+
+  // Mark the current event as unsyncable and move on
+  const skipEvent = useCallback(async (reason: SkipReason, note?: string) => {
+    if (!eventsData || !frameIndex) return;
+    if (currentEventIndex >= eventsData.numRows) return;
+
+    const eventId = String(eventsData.columns['opta_event_id']?.[currentEventIndex] ?? currentEventIndex);
+    const newSkipped = { ...skippedEvents, [eventId]: createSkipRecord(reason, annotator, note) };
+    setSkippedEvents(newSkipped);
+    await saveSkippedEvents(newSkipped);
+
+    // An event is either synced or skipped, never both
+    let newResults = syncedResults;
+    if (eventId in syncedResults) {
+      newResults = { ...syncedResults };
+      delete newResults[eventId];
+      setSyncedResults(newResults);
+      await saveSyncedResults(newResults);
+    }
+
+    const newQueue = pruneReviewQueue(reviewQueue, newResults, newSkipped);
+    if (newQueue.length !== reviewQueue.length) {
+      setReviewQueue(newQueue);
+      await saveReviewQueue(newQueue);
+    }
+
+    const newIndex = findFirstUnsynced(currentEventIndex + 1, eventsData, newResults, newSkipped);
     setCurrentEventIndex(newIndex);
-    const offset = updateOffsetForEvent(newIndex, eventsData, trackingData, syncedResults, lastSyncOffset);
+    const offset = updateOffsetForEvent(newIndex, eventsData, frameIndex, newResults, lastSyncOffsetMs);
     setFrameOffset(offset);
-  }, [currentEventIndex, eventsData, trackingData, syncedResults, lastSyncOffset, findFirstUnsynced, updateOffsetForEvent]);
 
-  // Download results as JSON
+    await recordHistory(
+      'Skip event',
+      { results: syncedResults, skipped: skippedEvents, reviewQueue },
+      { results: newResults, skipped: newSkipped, reviewQueue: newQueue },
+      { eventIndex: currentEventIndex, frameOffset, lastSyncOffsetMs },
+      { eventIndex: newIndex, frameOffset: offset, lastSyncOffsetMs }
+    );
+  }, [currentEventIndex, eventsData, frameIndex, syncedResults, skippedEvents, reviewQueue, frameOffset, lastSyncOffsetMs, annotator, findFirstUnsynced, pruneReviewQueue, updateOffsetForEvent, recordHistory]);
+
+  // Remove the synced time or skip status of the current event
+  const clearCurrentSync = useCallback(async () => {
+    if (!eventsData || currentEventIndex >= eventsData.numRows) return;
+
+    const eventId = String(eventsData.columns['opta_event_id']?.[currentEventIndex] ?? currentEventIndex);
+    const position = { eventIndex: currentEventIndex, frameOffset, lastSyncOffsetMs };
+
+    if (eventId in syncedResults) {
+      const newResults = { ...syncedResults };
+      delete newResults[eventId];
+      setSyncedResults(newResults);
+      await saveSyncedResults(newResults);
+      await recordHistory('Clear sync', { results: syncedResults, skipped: skippedEvents, reviewQueue }, { results: newResults, skipped: skippedEvents, reviewQueue }, position, position);
+    } else if (eventId in skippedEvents) {
+      const newSkipped = { ...skippedEvents };
+      delete newSkipped[eventId];
+      setSkippedEvents(newSkipped);
+      await saveSkippedEvents(newSkipped);
+      await recordHistory('Clear skip', { results: syncedResults, skipped: skippedEvents, reviewQueue }, { results: syncedResults, skipped: newSkipped, reviewQueue }, position, position);
+    }
+  }, [currentEventIndex, eventsData, syncedResults, skippedEvents, reviewQueue, frameOffset, lastSyncOffsetMs, recordHistory]);
+
+  // Step through the history, restoring results and the cursor position
+  const stepHistory = useCallback(async (direction: 'undo' | 'redo') => {
+    const from = direction === 'undo' ? history.undo : history.redo;
+    const entry = from[from.length - 1];
+    if (!entry) return;
+
+    const newHistory: SyncHistory = direction === 'undo'
+      ? { undo: history.undo.slice(0, -1), redo: [...history.redo, entry] }
+      : { undo: [...history.undo, entry], redo: history.redo.slice(0, -1) };
+    const { results, skipped, reviewQueue: queue } = applyHistoryEntry(
+      { results: syncedResults, skipped: skippedEvents, reviewQueue },
+      entry,
+      direction
+    );
+    const position = direction === 'undo' ? entry.before : entry.after;
+
+    setHistory(newHistory);
+    setSyncedResults(results);
+    setSkippedEvents(skipped);
+    setReviewQueue(queue);
+    setCurrentEventIndex(position.eventIndex);
+    setFrameOffset(position.frameOffset);
+    if (position.lastSyncOffsetMs !== undefined) setLastSyncOffsetMs(position.lastSyncOffsetMs);
+    try {
+      await Promise.all([saveHistory(newHistory), saveSyncedResults(results), saveSkippedEvents(skipped), saveReviewQueue(queue)]);
+    } catch (error) {
+      console.error(`Failed to save ${direction}:`, error);
+    }
+  }, [history, syncedResults, skippedEvents, reviewQueue]);
+
+  const undo = useCallback(() => {
+    stepHistory('undo');
+  }, [stepHistory]);
+
+  const redo = useCallback(() => {
+    stepHistory('redo');
+  }, [stepHistory]);
+
+  // Download results as JSON (skipped events are included with their reason)
   const downloadResults = useCallback(() => {
-    const jsonStr = JSON.stringify(syncedResults, null, 2);
+    const jsonStr = JSON.stringify(serializeSyncResults(syncedResults, skippedEvents), null, 2);
     const blob = new Blob([jsonStr], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -286,38 +529,141 @@ export function SyncProvider({ children }: SyncProviderProps) {
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [syncedResults, metadata]);
+  }, [syncedResults, skippedEvents, metadata]);
 
   // Upload results from JSON
-  const uploadResults = useCallback(async (results: SyncedResults) => {
-    if (!eventsData || !trackingData) return;
+  const uploadResults = useCallback(async (results: SyncedResults, skipped: SkippedEvents) => {
+    if (!eventsData || !frameIndex) return;
 
     // Clear existing synced results and replace with uploaded ones
     setSyncedResults(results);
-    await saveSyncedResults(results);
+    setSkippedEvents(skipped);
+    await Promise.all([saveSyncedResults(results), saveSkippedEvents(skipped)]);
+
+    const newQueue = pruneReviewQueue(reviewQueue, results, skipped);
+    setReviewQueue(newQueue);
+    await saveReviewQueue(newQueue);
 
     // Jump to first unsynced event
-    const firstUnsynced = findFirstUnsynced(0, eventsData, results);
+    const firstUnsynced = findFirstUnsynced(0, eventsData, results, skipped);
     setCurrentEventIndex(firstUnsynced);
 
-    const offset = updateOffsetForEvent(firstUnsynced, eventsData, trackingData, results, 0);
+    const offset = updateOffsetForEvent(firstUnsynced, eventsData, frameIndex, results, 0);
     setFrameOffset(offset);
-    setLastSyncOffset(0);
-  }, [eventsData, trackingData, findFirstUnsynced, updateOffsetForEvent]);
+    setLastSyncOffsetMs(0);
+
+    await recordHistory(
+      'Upload results',
+      { results: syncedResults, skipped: skippedEvents, reviewQueue },
+      { results, skipped, reviewQueue: newQueue },
+      { eventIndex: currentEventIndex, frameOffset, lastSyncOffsetMs },
+      { eventIndex: firstUnsynced, frameOffset: offset, lastSyncOffsetMs: 0 }
+    );
+  }, [eventsData, frameIndex, syncedResults, skippedEvents, reviewQueue, currentEventIndex, frameOffset, lastSyncOffsetMs, findFirstUnsynced, pruneReviewQueue, updateOffsetForEvent, recordHistory]);
+
+  // Run detectors over all unsynced events, auto-accept confident proposals and queue the rest
+  const preSyncAll = useCallback(async (threshold: number) => {
+    if (!eventsData || !trackingData || !frameIndex || preSyncProgress !== null) return;
+
+    const eventIdCol = eventsData.columns['opta_event_id'];
+    const unsyncedIndices: number[] = [];
+    for (let i = 0; i < eventsData.numRows; i++) {
+      const eventId = String(eventIdCol?.[i] ?? i);
+      if (!(eventId in syncedResults) && !(eventId in skippedEvents)) {
+        unsyncedIndices.push(i);
+      }
+    }
+    if (unsyncedIndices.length === 0) return;
+
+    setPreSyncProgress(0);
+    try {
+      const proposals = await runPresync(trackingData, frameIndex, eventsData, unsyncedIndices, metadata?.pitch, setPreSyncProgress);
+      const { accepted, reviewQueue: proposedQueue } = splitProposals(proposals, threshold);
+
+      // Accepted proposals sync their whole linked group like a manual sync - the most confident one wins
+      const newResults = { ...syncedResults };
+      let syncedCount = 0;
+      for (const proposal of [...accepted].sort((a, b) => b.confidence - a.confidence)) {
+        if (proposal.eventId in newResults) continue;
+        const group = getEventGroup(proposal.eventIndex);
+        const indices = group && isGroupLinked(group.key) ? group.indices : [proposal.eventIndex];
+        for (const index of indices) {
+          const eventId = String(eventIdCol?.[index] ?? index);
+          if (eventId in newResults || eventId in skippedEvents) continue;
+          const offset = getEventFrameOffset(index, eventsData, frameIndex, proposal.time);
+          newResults[eventId] = createSyncRecord(proposal.time, 'heuristic', annotator, offset, {
+            detector: proposal.detector ?? undefined,
+            confidence: proposal.confidence,
+          });
+          syncedCount++;
+        }
+      }
+
+      // Group members synced above don't need a review
+      const newQueue = pruneReviewQueue(proposedQueue, newResults, skippedEvents);
+      setSyncedResults(newResults);
+      setReviewQueue(newQueue);
+      await Promise.all([saveSyncedResults(newResults), saveReviewQueue(newQueue)]);
+
+      // Restore the offset in case the current event was auto-accepted
+      const offsetMs = getEventOffsetTime(currentEventIndex, eventsData, frameIndex, frameOffset);
+      const offset = updateOffsetForEvent(currentEventIndex, eventsData, frameIndex, newResults, offsetMs);
+      setFrameOffset(offset);
+
+      if (syncedCount > 0) {
+        await recordHistory(
+          `Pre-sync ${syncedCount} events`,
+          { results: syncedResults, skipped: skippedEvents, reviewQueue },
+          { results: newResults, skipped: skippedEvents, reviewQueue: newQueue },
+          { eventIndex: currentEventIndex, frameOffset, lastSyncOffsetMs },
+          { eventIndex: currentEventIndex, frameOffset: offset, lastSyncOffsetMs }
+        );
+      }
+    } catch (error) {
+      console.error('Failed to pre-sync events:', error);
+    }
+    setPreSyncProgress(null);
+  }, [eventsData, trackingData, frameIndex, metadata, preSyncProgress, syncedResults, skippedEvents, reviewQueue, currentEventIndex, frameOffset, lastSyncOffsetMs, annotator, getEventGroup, isGroupLinked, getEventFrameOffset, getEventOffsetTime, pruneReviewQueue, updateOffsetForEvent, recordHistory]);
+
+  // Remove an event from the review queue without syncing it
+  const dismissReviewItem = useCallback(async (eventId: string) => {
+    const newQueue = reviewQueue.filter(p => p.eventId !== eventId);
+    setReviewQueue(newQueue);
+    try {
+      await saveReviewQueue(newQueue);
+    } catch (error) {
+      console.error('Failed to save review queue:', error);
+    }
+  }, [reviewQueue]);
+
+  // Update and persist the annotator name
+  const setAnnotator = useCallback((name: string) => {
+    setAnnotatorState(name);
+    saveAnnotator(name).catch(error => console.error('Failed to save annotator:', error));
+  }, []);
 
   // Load from storage on mount
   useEffect(() => {
     loadFromStorage();
   }, [loadFromStorage]);
 
+  useEffect(() => {
+    loadAnnotator()
+      .then(setAnnotatorState)
+      .catch(error => console.error('Failed to load annotator:', error));
+  }, []);
+
   const value: SyncContextType = {
     eventsData,
     trackingData,
+    frameIndex,
     metadata,
     syncedResults,
+    skippedEvents,
+    reviewQueue,
     currentEventIndex,
     frameOffset,
-    lastSyncOffset,
+    lastSyncOffsetMs,
     isLoading,
     hasData,
     loadFromStorage,
@@ -330,10 +676,25 @@ export function SyncProvider({ children }: SyncProviderProps) {
     nextUnsynced,
     jumpToEvent,
     adjustFrameOffset,
+    getEventGroup,
+    isGroupLinked,
+    setGroupLinked,
+    setPeriodFlipped,
     syncCurrentEvent,
     skipEvent,
+    clearCurrentSync,
+    undoLabel: history.undo[history.undo.length - 1]?.label ?? null,
+    redoLabel: history.redo[history.redo.length - 1]?.label ?? null,
+    undo,
+    redo,
     downloadResults,
     uploadResults,
+    annotator,
+    setAnnotator,
+    preSyncProgress,
+    qualityReport: metadata?.qualityReport ?? null,
+    preSyncAll,
+    dismissReviewItem,
   };
 
   return (
@@ -8,6 +8,11 @@ export interface TrackingRow {
   pos_x: number;
   pos_y: number;
   is_ball: number;
+  // Kinematics columns, when computed on upload (null for samples without neighbours)
+  vel_x?: number | null;
+  vel_y?: number | null;
+  speed?: number | null;
+  accel?: number | null;
 }
 
 export interface EventRow {
@@ -22,41 +27,204 @@ export interface EventRow {
   pass_end_y?: number;
   event_type_id?: string | number;
   event_type_desc?: string;
+  player_id?: number;
 }
 
+// Typed storage for numeric columns
+export type NumericColumnType = 'float32' | 'int32';
+export type NumericColumn = Float32Array | Int32Array;
+export type Column = unknown[] | NumericColumn;
+
+// Numeric tracking columns kept as typed arrays instead of boxed JS arrays
+// (importers push row values in this key order)
+export const NUMERIC_TRACKING_COLUMNS: Record<string, NumericColumnType> = {
+  period_id: 'int32',
+  matched_time: 'int32',
+  team_opta_id: 'int32',
+  jersey_no: 'int32',
+  pos_x: 'float32',
+  pos_y: 'float32',
+  is_ball: 'int32',
+};
+
+// Placeholder team IDs for tracking feeds that only know home/away - mapped to event team IDs on upload
+export const HOME_TEAM_ID = 1;
+export const AWAY_TEAM_ID = 2;
+
 // Columnar data format for efficient storage and access
 export interface ColumnarData {
-  columns: Record<string, unknown[]>;
+  columns: Record<string, Column>;
+  // Null bitmaps for typed columns (bit set = value is null), only present if a column has nulls
+  nullMasks?: Record<string, Uint8Array>;
   numRows: number;
   fieldNames: string[];
 }
 
+// Check whether a value is null, using the null bitmap for typed columns
+export function isNullAt(data: ColumnarData, name: string, index: number): boolean {
+  const mask = data.nullMasks?.[name];
+  if (mask) {
+    return (mask[index >> 3] & (1 << (index & 7))) !== 0;
+  }
+  const value = data.columns[name]?.[index];
+  return value === null || value === undefined;
+}
+
 // Helper to get a row from columnar data
 export function getRow<T>(data: ColumnarData, index: number): T {
   const row = {} as T;
   for (const name of data.fieldNames) {
-    (row as Record<string, unknown>)[name] = data.columns[name][index];
+    (row as Record<string, unknown>)[name] = isNullAt(data, name, index) ? null : data.columns[name][index];
   }
   return row;
 }
 
+// Frame rate of one period, detected from the time between frames
+export interface FrameRate {
+  fps: number;             // 0 when the period has a single frame
+  frameIntervalMs: number; // Median time between frames
+  gaps: { startTime: number; endTime: number }[]; // Dropped frames
+  irregularCount: number;  // Frame intervals off the median that aren't gaps
+}
+
+// Frame index for one period: sorted unique times plus row ranges per frame
+export interface PeriodFrames {
+  times: number[];
+  frameRate: FrameRate;
+  frameStarts: Uint32Array; // Start position in rowOrder for each frame
+  frameEnds: Uint32Array;   // End position in rowOrder (exclusive)
+}
+
+// Precomputed frame index for tracking data
+export interface FrameIndex {
+  periods: Map<number, PeriodFrames>;
+  rowOrder: Uint32Array; // Row indices sorted by period, then matched_time
+}
+
+// How a sync time was set
+export type SyncMethod = 'manual' | 'previous' | 'heuristic' | 'import';
+
+// Automatic sync detector that proposed a frame
+export type SyncDetector = 'ball-acceleration' | 'player-proximity' | 'out-of-bounds';
+
+// Provenance record for one synced event
+export interface SyncRecord {
+  time: number;
+  method: SyncMethod;
+  timestamp: string;          // ISO time the record was created
+  annotator: string;
+  frameOffset: number | null; // Frames from the event's matched_time frame (null if unknown, e.g. migrated)
+  note?: string;
+  detector?: SyncDetector;    // Set when method is 'heuristic'
+  confidence?: number;
+}
+
 export interface SyncedResults {
-  [eventId: string]: number;
+  [eventId: string]: SyncRecord;
+}
+
+// Why an event could not be synced
+export type SkipReason = 'no-tracking' | 'ball-not-visible' | 'tracking-error' | 'duplicate';
+
+// Record for an event marked as unsyncable
+export interface SkipRecord {
+  status: 'skipped';
+  reason: SkipReason;
+  timestamp: string;          // ISO time the record was created
+  annotator: string;
+  note?: string;
+}
+
+export interface SkippedEvents {
+  [eventId: string]: SkipRecord;
+}
+
+// Proposed sync time for one event from a batch pre-sync run
+export interface PresyncProposal {
+  eventId: string;
+  eventIndex: number;
+  time: number;
+  confidence: number;
+  detector: SyncDetector | null; // null when no detector applies to the event
+}
+
+// Which events are offered for syncing
+export interface EventFilterProfile {
+  eventTypes: number[];        // Opta event type IDs
+  periods: number[];
+  requireCoordinates: boolean; // Drop events without x/y
+}
+
+// Player from an uploaded lineup file
+export interface LineupPlayer {
+  playerId: number | null; // Matches events player_id / tracking player_opta_id
+  name: string;
+  jersey: number | null;
+  position: string | null;
+  subOn: number | null;    // Match minute the player came on (null for starters)
+  subOff: number | null;   // Match minute the player went off
+}
+
+export interface LineupTeam {
+  teamId: number; // Matches events team_id
+  name: string;
+  players: LineupPlayer[];
+}
+
+export interface Lineup {
+  teams: LineupTeam[];
+}
+
+// Pitch size in meters
+export interface PitchDimensions {
+  length: number;
+  width: number;
+}
+
+// Tracking quality problems found on upload
+export type QualityIssueKind =
+  | 'frame-gap'
+  | 'ball-missing'
+  | 'duplicate-jersey'
+  | 'missing-jersey'
+  | 'implausible-speed'
+  | 'outside-pitch';
+
+export interface QualitySpan {
+  kind: QualityIssueKind;
+  period: number;
+  startTime: number;
+  endTime: number;
+  frames: number;  // Flagged frames in the span - dropped frames for a gap
+  detail: string;  // First offending player or the gap length, for the sidebar
+}
+
+export interface QualityReport {
+  spans: QualitySpan[];
+  periods: { period: number; startTime: number; endTime: number }[];
 }
 
 export interface Metadata {
   gameUuid: string;
   teamIds: number[];
+  eventFilter?: EventFilterProfile; // Missing on sessions saved before the filter was configurable
+  lineup?: Lineup;                  // Optional lineup file with team and player names
+  pitch?: PitchDimensions;          // From the tracking metadata - missing means the default 105x68
+  flippedPeriods?: number[];        // Periods where the annotator flipped the detected attacking directions
+  qualityReport?: QualityReport;    // Tracking quality scan from the upload - missing on older sessions
 }
 
 export interface AppState {
   eventsData: ColumnarData | null;
   trackingData: ColumnarData | null;
+  frameIndex: FrameIndex | null;
   metadata: Metadata | null;
   syncedResults: SyncedResults;
+  skippedEvents: SkippedEvents;
+  reviewQueue: PresyncProposal[];
   currentEventIndex: number;
   frameOffset: number;
-  lastSyncOffset: number;
+  lastSyncOffsetMs: number; // Time offset of the last sync, carried to the next unsynced event
   isLoading: boolean;
   hasData: boolean;
 }
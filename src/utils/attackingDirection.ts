@@ -0,0 +1,72 @@
+// Attacking direction per period and team, detected from goalkeeper positions in the tracking data
+// Tracking is in a fixed frame, while Opta events are normalized so the acting team attacks towards x=100
+import { isNullAt } from '../types';
+import type { ColumnarData, EventRow } from '../types';
+
+export type AttackingDirection = 'right' | 'left'; // Towards Opta x=100 / x=0 in the tracking frame
+
+// Period -> team ID -> direction
+export type AttackingDirections = Map<number, Map<number, AttackingDirection>>;
+
+// Players seen in fewer frames than this share of their team's most-seen player are ignored (late subs, glitches)
+const MIN_FRAME_SHARE = 0.25;
+
+// The goalkeeper is the player who stays furthest from the halfway line on average - their team attacks the other goal
+export function detectAttackingDirections(tracking: ColumnarData): AttackingDirections {
+  const periodCol = tracking.columns['period_id'] as ArrayLike<number>;
+  const teamCol = tracking.columns['team_opta_id'] as ArrayLike<number>;
+  const jerseyCol = tracking.columns['jersey_no'] as ArrayLike<number>;
+  const posXCol = tracking.columns['pos_x'] as ArrayLike<number>;
+  const ballCol = tracking.columns['is_ball'] as ArrayLike<number>;
+  const directions: AttackingDirections = new Map();
+  if (!periodCol || !teamCol || !jerseyCol || !posXCol) return directions;
+
+  // Sum of x and frame count per period, team and player
+  const players = new Map<number, Map<number, Map<number, { sumX: number; count: number }>>>();
+  for (let i = 0; i < tracking.numRows; i++) {
+    if ((ballCol && ballCol[i] === 1) || isNullAt(tracking, 'jersey_no', i) || isNullAt(tracking, 'pos_x', i)) continue;
+
+    let teams = players.get(periodCol[i]);
+    if (!teams) players.set(periodCol[i], teams = new Map());
+    let jerseys = teams.get(teamCol[i]);
+    if (!jerseys) teams.set(teamCol[i], jerseys = new Map());
+    const stats = jerseys.get(jerseyCol[i]);
+    if (stats) {
+      stats.sumX += posXCol[i];
+      stats.count++;
+    } else {
+      jerseys.set(jerseyCol[i], { sumX: posXCol[i], count: 1 });
+    }
+  }
+
+  for (const [period, teams] of players) {
+    const periodDirections = new Map<number, AttackingDirection>();
+    for (const [teamId, jerseys] of teams) {
+      const maxCount = Math.max(...[...jerseys.values()].map(s => s.count));
+      let goalkeeperX: number | null = null;
+      for (const { sumX, count } of jerseys.values()) {
+        if (count < maxCount * MIN_FRAME_SHARE) continue;
+        const meanX = sumX / count;
+        if (goalkeeperX === null || Math.abs(meanX - 50) > Math.abs(goalkeeperX - 50)) goalkeeperX = meanX;
+      }
+      if (goalkeeperX !== null) periodDirections.set(teamId, goalkeeperX < 50 ? 'right' : 'left');
+    }
+    directions.set(period, periodDirections);
+  }
+
+  return directions;
+}
+
+// Rotate an event by 180° into the tracking frame - for events of the team attacking left in the tracking data
+// Missing coordinates and the 0,0 placeholder for "no pass end" are kept as they are
+export function mirrorEvent(event: EventRow): EventRow {
+  const flip = <T,>(value: T): T => (typeof value === 'number' && Number.isFinite(value) ? 100 - value : value) as T;
+  const hasPassEnd = !(event.pass_end_x === 0 && event.pass_end_y === 0);
+  return {
+    ...event,
+    x: flip(event.x),
+    y: flip(event.y),
+    pass_end_x: hasPassEnd ? flip(event.pass_end_x) : event.pass_end_x,
+    pass_end_y: hasPassEnd ? flip(event.pass_end_y) : event.pass_end_y,
+  };
+}
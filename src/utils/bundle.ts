@@ -0,0 +1,52 @@
+// Match bundles - one .zip with the tracking, events and optional lineup files of a game
+import type { ZipEntry } from './zip';
+
+export interface BundleFiles {
+  tracking: File[];
+  events: File[];
+  lineup: File[];
+  unknown: File[]; // Parquet files without a name hint are sorted by their columns after parsing
+}
+
+const extensionOf = (path: string) => path.slice(path.lastIndexOf('.')).toLowerCase();
+
+// Sort bundle files by name - folder and file names like "tracking", "events", "f24", "lineup", plus the raw feed pairs
+export function classifyBundleFiles(entries: ZipEntry[]): BundleFiles {
+  const bundle: BundleFiles = { tracking: [], events: [], lineup: [], unknown: [] };
+  const hasExtension = (ext: string) => entries.some(e => extensionOf(e.path) === ext);
+
+  for (const { path, file } of entries) {
+    const name = path.toLowerCase();
+    const ext = extensionOf(path);
+    const isTracking = /track/.test(name);
+    const isEvents = /event|f24/.test(name);
+
+    if (/lineup|squad|roster/.test(name) && (ext === '.json' || ext === '.csv')) {
+      bundle.lineup.push(file);
+    } else if (ext === '.dat' || ext === '.jsonl') {
+      bundle.tracking.push(file);
+    } else if (ext === '.xml') {
+      // TRACAB metadata sits next to its .dat file, anything else is an F24 feed
+      (hasExtension('.dat') && !isEvents ? bundle.tracking : bundle.events).push(file);
+    } else if (ext === '.json') {
+      // Second Spectrum metadata sits next to its .jsonl file, anything else is StatsBomb events
+      (hasExtension('.jsonl') && !isEvents ? bundle.tracking : bundle.events).push(file);
+    } else if (ext === '.csv' || ext === '.parquet') {
+      if (isTracking) bundle.tracking.push(file);
+      else if (isEvents) bundle.events.push(file);
+      else if (ext === '.parquet') bundle.unknown.push(file);
+    }
+  }
+
+  return bundle;
+}
+
+// Game ID in a file name - a UUID or the longest run of 5+ digits (e.g. "tracking_2217391.parquet", "f24-8-2021-2217391.xml")
+export function extractGameId(fileName: string): string | null {
+  const uuid = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i.exec(fileName);
+  if (uuid) return uuid[0].toLowerCase();
+
+  const runs = fileName.match(/\d{5,}/g);
+  if (!runs) return null;
+  return runs.reduce((longest, run) => (run.length > longest.length ? run : longest));
+}
@@ -0,0 +1,160 @@
+// Column mapping for parquet files whose columns don't use the tool's field names
+import type { ColumnarData, Column } from '../types';
+import { isNullAt } from '../types';
+
+export type DatasetKind = 'tracking' | 'events';
+
+// Detected type of a source column from a sample of its values
+export type ColumnKind = 'number' | 'boolean' | 'string' | 'empty' | 'mixed';
+
+// Values a target field accepts - ids can be numbers or strings, text accepts anything
+export type FieldType = 'number' | 'id' | 'text';
+
+export interface TargetField {
+  name: string;
+  type: FieldType;
+  required: boolean;
+  aliases: string[]; // Common alternative column names, matched case-insensitively
+}
+
+export interface SourceColumn {
+  name: string;
+  kind: ColumnKind;
+  sample: string; // First non-null value, for display
+}
+
+// Target field -> source column
+export type ColumnMapping = Record<string, string>;
+
+export interface ColumnPreset {
+  name: string;
+  kind: DatasetKind;
+  mapping: ColumnMapping;
+}
+
+export const TRACKING_FIELDS: TargetField[] = [
+  { name: 'period_id', type: 'number', required: true, aliases: ['period', 'half'] },
+  { name: 'matched_time', type: 'number', required: true, aliases: ['frame_time', 'time', 'time_ms', 'timestamp'] },
+  { name: 'team_opta_id', type: 'number', required: true, aliases: ['team_id', 'team'] },
+  { name: 'jersey_no', type: 'number', required: true, aliases: ['jersey', 'jersey_number', 'shirt_number'] },
+  { name: 'pos_x', type: 'number', required: true, aliases: ['x', 'x_m', 'pos_x_m'] },
+  { name: 'pos_y', type: 'number', required: true, aliases: ['y', 'y_m', 'pos_y_m'] },
+  { name: 'is_ball', type: 'number', required: true, aliases: ['ball'] },
+  { name: 'player_opta_id', type: 'number', required: false, aliases: ['player_id'] },
+];
+
+export const EVENT_FIELDS: TargetField[] = [
+  { name: 'opta_event_id', type: 'id', required: true, aliases: ['event_id', 'id'] },
+  { name: 'period_id', type: 'number', required: true, aliases: ['period', 'half'] },
+  { name: 'matched_time', type: 'number', required: true, aliases: ['event_time', 'time', 'time_ms', 'timestamp'] },
+  { name: 'team_id', type: 'number', required: true, aliases: ['team_opta_id', 'team'] },
+  { name: 'event_type_id', type: 'number', required: true, aliases: ['type_id', 'event_type'] },
+  { name: 'x', type: 'number', required: true, aliases: ['start_x', 'location_x'] },
+  { name: 'y', type: 'number', required: true, aliases: ['start_y', 'location_y'] },
+  { name: 'jersey_no', type: 'number', required: false, aliases: ['jersey', 'jersey_number', 'shirt_number'] },
+  { name: 'player_id', type: 'number', required: false, aliases: ['player_opta_id'] },
+  { name: 'pass_end_x', type: 'number', required: false, aliases: ['end_x'] },
+  { name: 'pass_end_y', type: 'number', required: false, aliases: ['end_y'] },
+  { name: 'event_type_desc', type: 'text', required: false, aliases: ['type_name', 'event_type_name'] },
+];
+
+export function getTargetFields(kind: DatasetKind): TargetField[] {
+  return kind === 'tracking' ? TRACKING_FIELDS : EVENT_FIELDS;
+}
+
+// Column kinds each field type accepts
+const ACCEPTED_KINDS: Record<FieldType, ColumnKind[]> = {
+  number: ['number', 'boolean'],
+  id: ['number', 'string'],
+  text: ['number', 'boolean', 'string'],
+};
+
+// Detect the type of every column from its first non-null values
+export function detectSchema(data: ColumnarData, sampleSize = 1000): SourceColumn[] {
+  return data.fieldNames.map(name => {
+    const col: Column = data.columns[name];
+    const kinds = new Set<string>();
+    let sample = '';
+    let sampled = 0;
+
+    for (let i = 0; i < data.numRows && sampled < sampleSize; i++) {
+      if (isNullAt(data, name, i)) continue;
+      const value = col[i];
+      if (sampled === 0) sample = String(value);
+      kinds.add(typeof value === 'bigint' ? 'number' : typeof value);
+      sampled++;
+    }
+
+    let kind: ColumnKind = 'mixed';
+    if (kinds.size === 0) kind = 'empty';
+    else if (kinds.size === 1 && ['number', 'boolean', 'string'].includes([...kinds][0])) kind = [...kinds][0] as ColumnKind;
+
+    return { name, kind, sample };
+  });
+}
+
+// Whether the data already has every required field under its own name
+export function hasRequiredFields(data: ColumnarData, fields: TargetField[]): boolean {
+  return fields.every(field => !field.required || data.fieldNames.includes(field.name));
+}
+
+// Initial mapping - a saved preset whose columns all exist, otherwise exact names then aliases
+export function suggestMapping(fields: TargetField[], schema: SourceColumn[], presets: ColumnPreset[] = []): ColumnMapping {
+  const names = schema.map(col => col.name);
+  const preset = presets.find(p => Object.values(p.mapping).every(source => names.includes(source)));
+  if (preset) return { ...preset.mapping };
+
+  const byLowerName = new Map(names.map(name => [name.toLowerCase(), name]));
+  const mapping: ColumnMapping = {};
+  for (const field of fields) {
+    const match = [field.name, ...field.aliases]
+      .map(candidate => byLowerName.get(candidate.toLowerCase()))
+      .find(name => name !== undefined);
+    if (match) mapping[field.name] = match;
+  }
+  return mapping;
+}
+
+// Problems with a mapping, per target field (empty when the mapping can be applied)
+export function validateMapping(fields: TargetField[], mapping: ColumnMapping, schema: SourceColumn[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const field of fields) {
+    const source = mapping[field.name];
+    if (!source) {
+      if (field.required) errors[field.name] = 'Required';
+      continue;
+    }
+
+    const column = schema.find(col => col.name === source);
+    if (!column) {
+      errors[field.name] = `Column "${source}" not found`;
+    } else if (column.kind === 'empty') {
+      if (field.required) errors[field.name] = `"${source}" has no values`;
+    } else if (!ACCEPTED_KINDS[field.type].includes(column.kind)) {
+      errors[field.name] = `Expected ${field.type === 'id' ? 'numbers or text' : 'numbers'}, "${source}" has ${column.kind} values`;
+    }
+  }
+  return errors;
+}
+
+// Rename mapped columns to their target fields - unmapped source columns are kept as they are
+export function applyColumnMapping(data: ColumnarData, mapping: ColumnMapping): ColumnarData {
+  const columns: Record<string, Column> = {};
+  const nullMasks: Record<string, Uint8Array> = {};
+  const mappedSources = new Set(Object.values(mapping));
+
+  const copy = (target: string, source: string) => {
+    columns[target] = data.columns[source];
+    const mask = data.nullMasks?.[source];
+    if (mask) nullMasks[target] = mask;
+  };
+
+  for (const name of data.fieldNames) {
+    if (!mappedSources.has(name) && !(name in mapping)) copy(name, name);
+  }
+  for (const [target, source] of Object.entries(mapping)) {
+    if (source && data.columns[source]) copy(target, source);
+  }
+
+  return { columns, nullMasks, numRows: data.numRows, fieldNames: Object.keys(columns) };
+}
@@ -0,0 +1,174 @@
+// Helpers for typed-array columns and their null bitmaps
+
+import { NUMERIC_TRACKING_COLUMNS } from '../types';
+import type { ColumnarData, NumericColumn, NumericColumnType } from '../types';
+
+// Allocate an empty typed column of the given type
+export function createTypedColumn(type: NumericColumnType, length: number): NumericColumn {
+  return type === 'float32' ? new Float32Array(length) : new Int32Array(length);
+}
+
+// Allocate a null bitmap with one bit per row
+export function createNullMask(length: number): Uint8Array {
+  return new Uint8Array(Math.ceil(length / 8));
+}
+
+// Mark a row as null in a bitmap
+export function setNull(mask: Uint8Array, index: number): void {
+  mask[index >> 3] |= 1 << (index & 7);
+}
+
+// Convert a value to a finite number, or null if it can't be represented
+export function toFiniteNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const num = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+// Convert boxed values to a typed column plus null bitmap (null if there are no nulls)
+export function toTypedColumn(
+  values: ArrayLike<unknown>,
+  type: NumericColumnType
+): { data: NumericColumn; nulls: Uint8Array | null } {
+  const data = createTypedColumn(type, values.length);
+  let nulls: Uint8Array | null = null;
+
+  for (let i = 0; i < values.length; i++) {
+    const num = toFiniteNumber(values[i]);
+    if (num === null) {
+      if (!nulls) nulls = createNullMask(values.length);
+      setNull(nulls, i);
+      // Float columns also carry NaN so plain reads never see a fake 0
+      if (type === 'float32') data[i] = NaN;
+    } else {
+      data[i] = type === 'int32' ? Math.round(num) : num;
+    }
+  }
+
+  return { data, nulls };
+}
+
+// Convert any boxed numeric columns of a dataset to typed columns
+export function toTypedColumns(
+  data: ColumnarData,
+  spec: Record<string, NumericColumnType> = NUMERIC_TRACKING_COLUMNS
+): ColumnarData {
+  const columns = { ...data.columns };
+  const nullMasks = { ...data.nullMasks };
+
+  for (const [name, type] of Object.entries(spec)) {
+    const col = columns[name];
+    if (!col || !Array.isArray(col)) continue;
+
+    const { data: typed, nulls } = toTypedColumn(col, type);
+    columns[name] = typed;
+    if (nulls) {
+      nullMasks[name] = nulls;
+    } else {
+      delete nullMasks[name];
+    }
+  }
+
+  return { ...data, columns, nullMasks };
+}
+
+// Copy of a few columns with their null masks - typed columns are copied so their buffers can be transferred
+export function pickColumns(data: ColumnarData, names: string[]): ColumnarData {
+  const columns: ColumnarData['columns'] = {};
+  const nullMasks: Record<string, Uint8Array> = {};
+
+  for (const name of names) {
+    const col = data.columns[name];
+    if (!col) continue;
+    columns[name] = col.slice();
+    const mask = data.nullMasks?.[name];
+    if (mask) nullMasks[name] = mask.slice();
+  }
+
+  return { columns, nullMasks, numRows: data.numRows, fieldNames: Object.keys(columns) };
+}
+
+// Buffers of the typed columns and null masks - moved to the worker instead of copied
+export function getTransferables(data: ColumnarData): Transferable[] {
+  const buffers = new Set<ArrayBufferLike>();
+  for (const col of Object.values(data.columns)) {
+    if (!Array.isArray(col)) buffers.add(col.buffer);
+  }
+  for (const mask of Object.values(data.nullMasks ?? {})) {
+    buffers.add(mask.buffer);
+  }
+  return [...buffers] as Transferable[];
+}
+
+// Append-only typed columns for importers that don't know the row count up front
+export interface ColumnsBuilder {
+  push(values: ArrayLike<number | null>): void; // One value per column, in spec order - null/NaN become nulls
+  finish(): ColumnarData;
+}
+
+export function createColumnsBuilder(
+  spec: Record<string, NumericColumnType> = NUMERIC_TRACKING_COLUMNS,
+  initialCapacity = 1 << 16
+): ColumnsBuilder {
+  const names = Object.keys(spec);
+  let capacity = initialCapacity;
+  let numRows = 0;
+  let columns = names.map(name => createTypedColumn(spec[name], capacity));
+  let masks = names.map(() => createNullMask(capacity));
+  const hasNulls = names.map(() => false);
+
+  // Double the capacity, copying existing rows
+  const grow = () => {
+    capacity *= 2;
+    columns = columns.map((col, c) => {
+      const next = createTypedColumn(spec[names[c]], capacity);
+      next.set(col);
+      return next;
+    });
+    masks = masks.map(mask => {
+      const next = createNullMask(capacity);
+      next.set(mask);
+      return next;
+    });
+  };
+
+  return {
+    push(values) {
+      if (numRows === capacity) grow();
+      for (let c = 0; c < names.length; c++) {
+        const value = values[c];
+        if (value === null || !Number.isFinite(value)) {
+          setNull(masks[c], numRows);
+          hasNulls[c] = true;
+          columns[c][numRows] = spec[names[c]] === 'float32' ? NaN : 0;
+        } else {
+          columns[c][numRows] = value;
+        }
+      }
+      numRows++;
+    },
+
+    finish() {
+      const data: ColumnarData = { columns: {}, nullMasks: {}, numRows, fieldNames: names };
+      names.forEach((name, c) => {
+        data.columns[name] = columns[c].slice(0, numRows);
+        if (hasNulls[c]) data.nullMasks![name] = masks[c].slice(0, Math.ceil(numRows / 8));
+      });
+      return data;
+    },
+  };
+}
+
+// Convert row objects to plain-array columns (for small datasets like events from importers)
+// Non-finite numbers become null, as in the parquet worker
+export function rowsToColumnar<K extends string>(rows: Record<K, unknown>[], fieldNames: K[]): ColumnarData {
+  const columns: Record<string, unknown[]> = {};
+  for (const name of fieldNames) {
+    columns[name] = rows.map(row => {
+      const value = row[name];
+      if (value === undefined) return null;
+      return typeof value === 'number' && !Number.isFinite(value) ? null : value;
+    });
+  }
+  return { columns, numRows: rows.length, fieldNames };
+}
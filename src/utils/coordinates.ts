@@ -0,0 +1,140 @@
+// Pitch coordinate systems - every system converts through meters from the center spot
+// Opta and StatsBomb are schematic pitches: their markings sit at fixed positions whatever the ground's size,
+// so they map piecewise onto the real markings of the match pitch (based on VectorizedOptaConverter from Python)
+import type { PitchDimensions } from '../types';
+
+export type CoordinateSystemId = 'metric-centered' | 'metric-corner' | 'opta' | 'statsbomb' | 'normalized';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface CoordinateSystem {
+  id: CoordinateSystemId;
+  name: string;
+  toMetric(point: Point, pitch: PitchDimensions): Point;   // To meters from the center spot
+  fromMetric(point: Point, pitch: PitchDimensions): Point; // From meters from the center spot
+}
+
+// Pitch size when the source doesn't provide one
+export const DEFAULT_PITCH: PitchDimensions = { length: 105, width: 68 };
+
+// Real markings on one half in meters - from the goal line: goal area, penalty spot, penalty area,
+// penalty arc, centre circle, halfway line
+function realXBreaks(pitch: PitchDimensions): number[] {
+  const half = pitch.length / 2;
+  return [0, 5.5, 11, 16.5, 20.15, half - 9.15, half];
+}
+
+// From the touchline: penalty area, goal area, the two Opta post breaks and the goal post, pitch center
+function realYBreaks(pitch: PitchDimensions): number[] {
+  const half = pitch.width / 2;
+  return [0, half - 20.16, half - 9.16, half - 7.31, half - 3.78, half - 3.66, half];
+}
+
+// The same markings on the schematic pitches
+const OPTA_X_BREAKS = [0, 5.8, 11.5, 17, 20.4, 41, 50];
+const OPTA_Y_BREAKS = [0, 21.1, 36.8, 40, 44.2, 45.2, 50];
+const STATSBOMB_X_BREAKS = [0, 6, 12, 18, 22, 50, 60];
+const STATSBOMB_Y_BREAKS = [0, 18, 30, 32.02, 35.87, 36, 40];
+
+// Linear interpolation between breakpoints - values outside the range extend the first/last segment
+function interp(value: number, sourceBreaks: number[], targetBreaks: number[]): number {
+  let i = 0;
+  while (i < sourceBreaks.length - 2 && value > sourceBreaks[i + 1]) {
+    i++;
+  }
+
+  const t = (value - sourceBreaks[i]) / (sourceBreaks[i + 1] - sourceBreaks[i]);
+  return targetBreaks[i] + t * (targetBreaks[i + 1] - targetBreaks[i]);
+}
+
+// Breakpoints cover one half - the other half is mirrored around the last breakpoint
+function interpMirrored(value: number, sourceBreaks: number[], targetBreaks: number[]): number {
+  const sourceMid = sourceBreaks[sourceBreaks.length - 1];
+  const targetMid = targetBreaks[targetBreaks.length - 1];
+  if (value <= sourceMid) return interp(value, sourceBreaks, targetBreaks);
+  return 2 * targetMid - interp(2 * sourceMid - value, sourceBreaks, targetBreaks);
+}
+
+export const COORDINATE_SYSTEMS: Record<CoordinateSystemId, CoordinateSystem> = {
+  // Meters from the center spot, y towards the Opta y=100 touchline (TRACAB, Second Spectrum)
+  'metric-centered': {
+    id: 'metric-centered',
+    name: 'Meters from center',
+    toMetric: point => point,
+    fromMetric: point => point,
+  },
+  // Meters from the Opta (0, 0) corner
+  'metric-corner': {
+    id: 'metric-corner',
+    name: 'Meters from corner',
+    toMetric: ({ x, y }, pitch) => ({ x: x - pitch.length / 2, y: y - pitch.width / 2 }),
+    fromMetric: ({ x, y }, pitch) => ({ x: x + pitch.length / 2, y: y + pitch.width / 2 }),
+  },
+  // 0-100 on both axes
+  opta: {
+    id: 'opta',
+    name: 'Opta',
+    toMetric: ({ x, y }, pitch) => ({
+      x: interpMirrored(x, OPTA_X_BREAKS, realXBreaks(pitch)) - pitch.length / 2,
+      y: interpMirrored(y, OPTA_Y_BREAKS, realYBreaks(pitch)) - pitch.width / 2,
+    }),
+    fromMetric: ({ x, y }, pitch) => ({
+      x: interpMirrored(x + pitch.length / 2, realXBreaks(pitch), OPTA_X_BREAKS),
+      y: interpMirrored(y + pitch.width / 2, realYBreaks(pitch), OPTA_Y_BREAKS),
+    }),
+  },
+  // 120x80 with y growing towards the Opta y=0 touchline
+  statsbomb: {
+    id: 'statsbomb',
+    name: 'StatsBomb',
+    toMetric: ({ x, y }, pitch) => ({
+      x: interpMirrored(x, STATSBOMB_X_BREAKS, realXBreaks(pitch)) - pitch.length / 2,
+      y: pitch.width / 2 - interpMirrored(y, STATSBOMB_Y_BREAKS, realYBreaks(pitch)),
+    }),
+    fromMetric: ({ x, y }, pitch) => ({
+      x: interpMirrored(x + pitch.length / 2, realXBreaks(pitch), STATSBOMB_X_BREAKS),
+      y: interpMirrored(pitch.width / 2 - y, realYBreaks(pitch), STATSBOMB_Y_BREAKS),
+    }),
+  },
+  // 0-1 from the Opta (0, 100) corner with y growing towards the Opta y=0 touchline (Metrica)
+  normalized: {
+    id: 'normalized',
+    name: 'Normalized 0-1',
+    toMetric: ({ x, y }, pitch) => ({ x: (x - 0.5) * pitch.length, y: (0.5 - y) * pitch.width }),
+    fromMetric: ({ x, y }, pitch) => ({ x: x / pitch.length + 0.5, y: 0.5 - y / pitch.width }),
+  },
+};
+
+// Convert a single point between two coordinate systems
+export function convertPoint(
+  point: Point,
+  from: CoordinateSystemId,
+  to: CoordinateSystemId,
+  pitch: PitchDimensions = DEFAULT_PITCH
+): Point {
+  if (from === to) return point;
+  return COORDINATE_SYSTEMS[to].fromMetric(COORDINATE_SYSTEMS[from].toMetric(point, pitch), pitch);
+}
+
+// Convert arrays of coordinates (for columnar data)
+export function convertArrays(
+  xArray: ArrayLike<number>,
+  yArray: ArrayLike<number>,
+  from: CoordinateSystemId,
+  to: CoordinateSystemId,
+  pitch: PitchDimensions = DEFAULT_PITCH
+): { x: Float32Array; y: Float32Array } {
+  const x = new Float32Array(xArray.length);
+  const y = new Float32Array(yArray.length);
+
+  for (let i = 0; i < xArray.length; i++) {
+    const converted = convertPoint({ x: xArray[i], y: yArray[i] }, from, to, pitch);
+    x[i] = converted.x;
+    y[i] = converted.y;
+  }
+
+  return { x, y };
+}
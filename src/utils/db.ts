@@ -1,15 +1,28 @@
 import { openDB } from 'idb';
 import type { DBSchema, IDBPDatabase } from 'idb';
-import type { ColumnarData, SyncedResults, Metadata } from '../types';
+import type { Column, ColumnarData, NumericColumnType, SyncedResults, SyncRecord, SkippedEvents, Metadata, PresyncProposal, EventFilterProfile } from '../types';
+import { toTypedColumns } from './columns';
+import { legacySyncRecord } from './syncResults';
+import { EMPTY_HISTORY } from './history';
+import type { SyncHistory } from './history';
+import type { ColumnPreset, DatasetKind } from './columnMapping';
+
+// Stored column record - typed columns are persisted as raw ArrayBuffers
+interface ColumnRecord {
+  key: string;
+  data: unknown;
+  dtype?: NumericColumnType;
+  nulls?: ArrayBuffer;
+}
 
 interface SyncToolDB extends DBSchema {
   trackingData: {
     key: string;
-    value: { key: string; data: unknown };
+    value: ColumnRecord;
   };
   eventsData: {
     key: string;
-    value: { key: string; data: unknown };
+    value: ColumnRecord;
   };
   metadata: {
     key: string;
@@ -19,10 +32,34 @@ interface SyncToolDB extends DBSchema {
     key: string;
     value: { id: string; data: SyncedResults };
   };
+  skippedEvents: {
+    key: string;
+    value: { id: string; data: SkippedEvents };
+  };
+  unlinkedGroups: {
+    key: string;
+    value: { id: string; data: string[] };
+  };
+  reviewQueue: {
+    key: string;
+    value: { id: string; data: PresyncProposal[] };
+  };
+  settings: {
+    key: string;
+    value: unknown;
+  };
+  history: {
+    key: string;
+    value: { id: string; data: SyncHistory };
+  };
+  columnPresets: {
+    key: string;
+    value: ColumnPreset;
+  };
 }
 
 const DB_NAME = 'event-sync-tool-db';
-const DB_VERSION = 2; // Increment version for schema change
+const DB_VERSION = 8; // Increment version for schema change
 
 let dbInstance: IDBPDatabase<SyncToolDB> | null = null;
 
@@ -30,29 +67,74 @@ async function getDB(): Promise<IDBPDatabase<SyncToolDB>> {
   if (dbInstance) return dbInstance;
 
   dbInstance = await openDB<SyncToolDB>(DB_NAME, DB_VERSION, {
-    upgrade(db: IDBPDatabase<SyncToolDB>) {
-      // Delete old stores if they exist
-      if (db.objectStoreNames.contains('trackingData')) {
-        db.deleteObjectStore('trackingData');
+    upgrade(db, oldVersion, _newVersion, transaction) {
+      if (oldVersion < 2) {
+        // Delete old stores if they exist
+        if (db.objectStoreNames.contains('trackingData')) {
+          db.deleteObjectStore('trackingData');
+        }
+        if (db.objectStoreNames.contains('eventsData')) {
+          db.deleteObjectStore('eventsData');
+        }
+
+        // Tracking data store - stores columnar data
+        db.createObjectStore('trackingData');
+
+        // Events data store - stores columnar data
+        db.createObjectStore('eventsData');
+
+        // Metadata store
+        if (!db.objectStoreNames.contains('metadata')) {
+          db.createObjectStore('metadata');
+        }
+
+        // Synced results store
+        if (!db.objectStoreNames.contains('syncedResults')) {
+          db.createObjectStore('syncedResults');
+        }
+      }
+
+      if (oldVersion < 3) {
+        // Review queue from batch pre-sync
+        db.createObjectStore('reviewQueue');
       }
-      if (db.objectStoreNames.contains('eventsData')) {
-        db.deleteObjectStore('eventsData');
+
+      if (oldVersion < 4) {
+        // User settings (annotator name)
+        db.createObjectStore('settings');
+
+        // Synced results used to be bare times - migrate them to provenance records
+        if (oldVersion > 0) {
+          const store = transaction.objectStore('syncedResults');
+          store.get('main').then(record => {
+            if (!record) return;
+            const data: SyncedResults = {};
+            for (const [eventId, value] of Object.entries(record.data as Record<string, number | SyncRecord>)) {
+              data[eventId] = typeof value === 'number' ? legacySyncRecord(value) : value;
+            }
+            store.put({ id: 'main', data }, 'main');
+          });
+        }
       }
 
-      // Tracking data store - stores columnar data
-      db.createObjectStore('trackingData');
+      if (oldVersion < 5) {
+        // Undo/redo history for sync actions
+        db.createObjectStore('history');
+      }
 
-      // Events data store - stores columnar data
-      db.createObjectStore('eventsData');
+      if (oldVersion < 6) {
+        // Events marked as unsyncable, with a reason
+        db.createObjectStore('skippedEvents');
+      }
 
-      // Metadata store
-      if (!db.objectStoreNames.contains('metadata')) {
-        db.createObjectStore('metadata');
+      if (oldVersion < 7) {
+        // Keys of auto-detected linked groups the user has unlinked
+        db.createObjectStore('unlinkedGroups');
       }
 
-      // Synced results store
-      if (!db.objectStoreNames.contains('syncedResults')) {
-        db.createObjectStore('syncedResults');
+      if (oldVersion < 8) {
+        // Named column mapping presets, keyed by dataset kind and name
+        db.createObjectStore('columnPresets');
       }
     },
   });
@@ -60,6 +142,32 @@ async function getDB(): Promise<IDBPDatabase<SyncToolDB>> {
   return dbInstance;
 }
 
+// Convert a column to its stored record
+function toColumnRecord(data: ColumnarData, fieldName: string): ColumnRecord {
+  const col = data.columns[fieldName];
+  if (Array.isArray(col)) {
+    return { key: fieldName, data: col };
+  }
+
+  // slice() copies just the viewed range in case the typed array is a view on a larger buffer
+  const nulls = data.nullMasks?.[fieldName];
+  return {
+    key: fieldName,
+    data: col.slice().buffer,
+    dtype: col instanceof Float32Array ? 'float32' : 'int32',
+    nulls: nulls ? nulls.slice().buffer : undefined,
+  };
+}
+
+// Read a stored column record back into a column plus optional null bitmap
+function fromColumnRecord(record: ColumnRecord): { column: Column; nulls: Uint8Array | null } {
+  if (record.dtype && record.data instanceof ArrayBuffer) {
+    const column = record.dtype === 'float32' ? new Float32Array(record.data) : new Int32Array(record.data);
+    return { column, nulls: record.nulls ? new Uint8Array(record.nulls) : null };
+  }
+  return { column: record.data as unknown[], nulls: null };
+}
+
 // Save tracking data (columnar format)
 export async function saveTrackingData(data: ColumnarData): Promise<void> {
   const db = await getDB();
@@ -74,7 +182,7 @@ export async function saveTrackingData(data: ColumnarData): Promise<void> {
 
   // Store all columns without awaiting individually - let transaction batch them
   for (const fieldName of data.fieldNames) {
-    store.put({ key: fieldName, data: data.columns[fieldName] }, fieldName);
+    store.put(toColumnRecord(data, fieldName), fieldName);
   }
 
   // Wait for entire transaction to complete
@@ -94,19 +202,25 @@ export async function loadTrackingData(): Promise<ColumnarData | null> {
   // Load all columns in parallel
   const columnPromises = fieldNames.map(async (fieldName) => {
     const colRecord = await db.get('trackingData', fieldName);
-    return { fieldName, data: colRecord?.data as unknown[] };
+    return { fieldName, record: colRecord };
   });
 
   const columnResults = await Promise.all(columnPromises);
 
-  const columns: Record<string, unknown[]> = {};
-  for (const { fieldName, data } of columnResults) {
-    if (data) {
-      columns[fieldName] = data;
+  const columns: Record<string, Column> = {};
+  const nullMasks: Record<string, Uint8Array> = {};
+  for (const { fieldName, record } of columnResults) {
+    if (record?.data) {
+      const { column, nulls } = fromColumnRecord(record);
+      columns[fieldName] = column;
+      if (nulls) {
+        nullMasks[fieldName] = nulls;
+      }
     }
   }
 
-  return { columns, numRows, fieldNames };
+  // Data saved before typed columns were introduced is stored as plain arrays
+  return toTypedColumns({ columns, nullMasks, numRows, fieldNames });
 }
 
 // Save events data (columnar format)
@@ -123,7 +237,7 @@ export async function saveEventsData(data: ColumnarData): Promise<void> {
 
   // Store all columns without awaiting individually - let transaction batch them
   for (const fieldName of data.fieldNames) {
-    store.put({ key: fieldName, data: data.columns[fieldName] }, fieldName);
+    store.put(toColumnRecord(data, fieldName), fieldName);
   }
 
   // Wait for entire transaction to complete
@@ -143,19 +257,24 @@ export async function loadEventsData(): Promise<ColumnarData | null> {
   // Load all columns in parallel
   const columnPromises = fieldNames.map(async (fieldName) => {
     const colRecord = await db.get('eventsData', fieldName);
-    return { fieldName, data: colRecord?.data as unknown[] };
+    return { fieldName, record: colRecord };
   });
 
   const columnResults = await Promise.all(columnPromises);
 
-  const columns: Record<string, unknown[]> = {};
-  for (const { fieldName, data } of columnResults) {
-    if (data) {
-      columns[fieldName] = data;
+  const columns: Record<string, Column> = {};
+  const nullMasks: Record<string, Uint8Array> = {};
+  for (const { fieldName, record } of columnResults) {
+    if (record?.data) {
+      const { column, nulls } = fromColumnRecord(record);
+      columns[fieldName] = column;
+      if (nulls) {
+        nullMasks[fieldName] = nulls;
+      }
     }
   }
 
-  return { columns, numRows, fieldNames };
+  return { columns, nullMasks, numRows, fieldNames };
 }
 
 // Save metadata
@@ -184,7 +303,103 @@ export async function loadSyncedResults(): Promise<SyncedResults> {
   return result?.data || {};
 }
 
-// Clear all data
+// Save skipped events
+export async function saveSkippedEvents(skipped: SkippedEvents): Promise<void> {
+  const db = await getDB();
+  await db.put('skippedEvents', { id: 'main', data: skipped }, 'main');
+}
+
+// Load skipped events
+export async function loadSkippedEvents(): Promise<SkippedEvents> {
+  const db = await getDB();
+  const result = await db.get('skippedEvents', 'main');
+  return result?.data || {};
+}
+
+// Save unlinked group keys
+export async function saveUnlinkedGroups(keys: string[]): Promise<void> {
+  const db = await getDB();
+  await db.put('unlinkedGroups', { id: 'main', data: keys }, 'main');
+}
+
+// Load unlinked group keys
+export async function loadUnlinkedGroups(): Promise<string[]> {
+  const db = await getDB();
+  const result = await db.get('unlinkedGroups', 'main');
+  return result?.data || [];
+}
+
+// Save review queue
+export async function saveReviewQueue(queue: PresyncProposal[]): Promise<void> {
+  const db = await getDB();
+  await db.put('reviewQueue', { id: 'main', data: queue }, 'main');
+}
+
+// Load review queue
+export async function loadReviewQueue(): Promise<PresyncProposal[]> {
+  const db = await getDB();
+  const result = await db.get('reviewQueue', 'main');
+  return result?.data || [];
+}
+
+// Save undo/redo history
+export async function saveHistory(history: SyncHistory): Promise<void> {
+  const db = await getDB();
+  await db.put('history', { id: 'main', data: history }, 'main');
+}
+
+// Load undo/redo history
+export async function loadHistory(): Promise<SyncHistory> {
+  const db = await getDB();
+  const result = await db.get('history', 'main');
+  return result?.data || EMPTY_HISTORY;
+}
+
+// Save annotator name
+export async function saveAnnotator(name: string): Promise<void> {
+  const db = await getDB();
+  await db.put('settings', name, 'annotator');
+}
+
+// Load annotator name
+export async function loadAnnotator(): Promise<string> {
+  const db = await getDB();
+  const result = await db.get('settings', 'annotator');
+  return typeof result === 'string' ? result : '';
+}
+
+// Save the last used event filter, so the next upload starts from it
+export async function saveEventFilter(profile: EventFilterProfile): Promise<void> {
+  const db = await getDB();
+  await db.put('settings', profile, 'eventFilter');
+}
+
+// Load the last used event filter
+export async function loadEventFilter(): Promise<EventFilterProfile | null> {
+  const db = await getDB();
+  const result = await db.get('settings', 'eventFilter');
+  return (result as EventFilterProfile | undefined) ?? null;
+}
+
+// Save a column mapping preset (replaces a preset with the same name)
+export async function saveColumnPreset(preset: ColumnPreset): Promise<void> {
+  const db = await getDB();
+  await db.put('columnPresets', preset, `${preset.kind}:${preset.name}`);
+}
+
+// Load all column mapping presets
+export async function loadColumnPresets(): Promise<ColumnPreset[]> {
+  const db = await getDB();
+  return db.getAll('columnPresets');
+}
+
+// Delete a column mapping preset
+export async function deleteColumnPreset(kind: DatasetKind, name: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('columnPresets', `${kind}:${name}`);
+}
+
+// Clear all data (settings and column presets are kept)
 export async function clearAllData(): Promise<void> {
   const db = await getDB();
 
@@ -203,6 +418,22 @@ export async function clearAllData(): Promise<void> {
   const tx4 = db.transaction('syncedResults', 'readwrite');
   await tx4.objectStore('syncedResults').clear();
   await tx4.done;
+
+  const tx5 = db.transaction('reviewQueue', 'readwrite');
+  await tx5.objectStore('reviewQueue').clear();
+  await tx5.done;
+
+  const tx6 = db.transaction('history', 'readwrite');
+  await tx6.objectStore('history').clear();
+  await tx6.done;
+
+  const tx7 = db.transaction('skippedEvents', 'readwrite');
+  await tx7.objectStore('skippedEvents').clear();
+  await tx7.done;
+
+  const tx8 = db.transaction('unlinkedGroups', 'readwrite');
+  await tx8.objectStore('unlinkedGroups').clear();
+  await tx8.done;
 }
 
 // Check if data exists
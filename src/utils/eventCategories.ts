@@ -0,0 +1,66 @@
+// Event type categories used for sync instructions and sync suggestions
+
+export type EventCategory = 'pass' | 'aerial' | 'interception' | 'outofbounds' | 'other';
+
+// Map event type IDs to categories
+export function getEventCategory(eventTypeId?: string | number): EventCategory {
+  if (eventTypeId === undefined || eventTypeId === null) return 'other';
+
+  const id = Number(eventTypeId);
+
+  // Passes, clearances, shots: 1 (pass), 12 (clearance), 13, 14, 15, 16 (shots)
+  if ([1, 12, 13, 14, 15, 16].includes(id)) return 'pass';
+
+  // Aerial duels: 44
+  if (id === 44) return 'aerial';
+
+  // Interceptions/recoveries: 8 (interception), 49 (ball recovery)
+  if ([8, 49].includes(id)) return 'interception';
+
+  // Out of bounds: 5 (out), 6 (corner awarded)
+  if ([5, 6].includes(id)) return 'outofbounds';
+
+  return 'other';
+}
+
+// Opta event type names, for event types without a description in the source data
+export const OPTA_EVENT_TYPE_NAMES: Record<number, string> = {
+  1: 'Pass',
+  2: 'Offside Pass',
+  3: 'Take On',
+  4: 'Foul',
+  5: 'Out',
+  6: 'Corner Awarded',
+  7: 'Tackle',
+  8: 'Interception',
+  10: 'Save',
+  11: 'Claim',
+  12: 'Clearance',
+  13: 'Miss',
+  14: 'Post',
+  15: 'Attempt Saved',
+  16: 'Goal',
+  17: 'Card',
+  18: 'Player Off',
+  19: 'Player On',
+  30: 'End',
+  32: 'Start',
+  34: 'Team Set Up',
+  41: 'Punch',
+  42: 'Good Skill',
+  43: 'Deleted Event',
+  44: 'Aerial',
+  45: 'Challenge',
+  49: 'Ball Recovery',
+  50: 'Dispossessed',
+  51: 'Error',
+  52: 'Keeper Pick-up',
+  53: 'Cross Not Claimed',
+  54: 'Smother',
+  55: 'Offside Provoked',
+  56: 'Shield Ball Opp',
+  58: 'Penalty Faced',
+  59: 'Keeper Sweeper',
+  61: 'Ball Touch',
+  74: 'Blocked Pass',
+};
@@ -0,0 +1,79 @@
+// Configurable filter deciding which events are offered for syncing
+import { isNullAt } from '../types';
+import type { Column, ColumnarData, EventFilterProfile } from '../types';
+
+// Passes, out of play, recoveries, clearances, aerials, corners, interceptions, shots and offside passes in regular time
+export const DEFAULT_EVENT_FILTER: EventFilterProfile = {
+  eventTypes: [1, 2, 5, 6, 8, 12, 13, 14, 15, 16, 44, 49],
+  periods: [1, 2],
+  requireCoordinates: true,
+};
+
+export const PERIOD_NAMES: Record<number, string> = {
+  1: 'First half',
+  2: 'Second half',
+  3: 'Extra time 1st half',
+  4: 'Extra time 2nd half',
+  5: 'Penalty shootout',
+};
+
+// Number of events per distinct value of a numeric column, sorted by value
+export function countByValue(data: ColumnarData, column: string): { value: number; count: number }[] {
+  const col = data.columns[column];
+  if (!col) return [];
+
+  const counts = new Map<number, number>();
+  for (let i = 0; i < data.numRows; i++) {
+    if (isNullAt(data, column, i)) continue;
+    const value = Number(col[i]);
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([value, count]) => ({ value, count }));
+}
+
+// Keep only the events matching the profile
+export function filterEvents(data: ColumnarData, profile: EventFilterProfile): ColumnarData {
+  const xCol = data.columns['x'];
+  const yCol = data.columns['y'];
+  const periodCol = data.columns['period_id'];
+  const eventTypeCol = data.columns['event_type_id'];
+
+  if (!periodCol || !eventTypeCol || (profile.requireCoordinates && (!xCol || !yCol))) {
+    console.warn('Events data missing required columns for filtering');
+    return data;
+  }
+
+  const eventTypes = new Set(profile.eventTypes);
+  const periods = new Set(profile.periods);
+  const hasValue = (col: Column, i: number) => {
+    const value = col[i];
+    return value !== null && value !== undefined && !Number.isNaN(value);
+  };
+
+  // Find indices that match the filter criteria
+  const validIndices: number[] = [];
+  for (let i = 0; i < data.numRows; i++) {
+    if (
+      (!profile.requireCoordinates || (hasValue(xCol, i) && hasValue(yCol, i))) &&
+      periods.has(Number(periodCol[i])) &&
+      eventTypes.has(Number(eventTypeCol[i]))
+    ) {
+      validIndices.push(i);
+    }
+  }
+
+  // Create filtered columnar data
+  const filteredColumns: Record<string, Column> = {};
+  for (const fieldName of data.fieldNames) {
+    const col = data.columns[fieldName];
+    filteredColumns[fieldName] = validIndices.map(i => col[i]);
+  }
+
+  return {
+    columns: filteredColumns,
+    numRows: validIndices.length,
+    fieldNames: data.fieldNames
+  };
+}
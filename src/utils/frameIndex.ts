@@ -0,0 +1,170 @@
+// Per-period frame index for tracking data
+// Built once when tracking data is loaded so frame lookups don't scan every row
+
+import { getRow, isNullAt } from '../types';
+import type { ColumnarData, FrameIndex, FrameRate, PeriodFrames } from '../types';
+
+// Frames further apart than this many frame intervals count as a gap
+const GAP_INTERVALS = 1.5;
+
+// Frame intervals off the median by more than this share count as irregular (30 fps alternates 33/34ms)
+const IRREGULAR_TOLERANCE = 0.1;
+
+// Frame rate from the median time between frames, with gaps and irregular spacing flagged
+export function detectFrameRate(times: number[]): FrameRate {
+  if (times.length < 2) {
+    return { fps: 0, frameIntervalMs: 0, gaps: [], irregularCount: 0 };
+  }
+
+  const deltas = new Float64Array(times.length - 1);
+  for (let i = 1; i < times.length; i++) {
+    deltas[i - 1] = times[i] - times[i - 1];
+  }
+  const frameIntervalMs = Float64Array.from(deltas).sort()[deltas.length >> 1];
+
+  const gaps: FrameRate['gaps'] = [];
+  let irregularCount = 0;
+  let regularTotal = 0; // Sum of the intervals outside gaps - their mean is exact for millisecond-rounded times
+  for (let i = 0; i < deltas.length; i++) {
+    if (deltas[i] > frameIntervalMs * GAP_INTERVALS) {
+      gaps.push({ startTime: times[i], endTime: times[i + 1] });
+      continue;
+    }
+    if (Math.abs(deltas[i] - frameIntervalMs) > frameIntervalMs * IRREGULAR_TOLERANCE) {
+      irregularCount++;
+    }
+    regularTotal += deltas[i];
+  }
+
+  const meanInterval = regularTotal / (deltas.length - gaps.length);
+  return { fps: meanInterval > 0 ? 1000 / meanInterval : 0, frameIntervalMs, gaps, irregularCount };
+}
+
+// Build the frame index: rows ordered by (period, time) plus row ranges per frame
+export function buildFrameIndex(data: ColumnarData): FrameIndex {
+  const periodCol = data.columns['period_id'] as number[];
+  const timeCol = data.columns['matched_time'] as number[];
+  const periods = new Map<number, PeriodFrames>();
+
+  if (!periodCol || !timeCol) {
+    console.warn('Tracking data missing period_id or matched_time columns, frame index is empty');
+    return { periods, rowOrder: new Uint32Array(0) };
+  }
+
+  // Collect valid rows and check whether they are already sorted (the common case)
+  const rowOrder = new Uint32Array(data.numRows);
+  let validCount = 0;
+  let isSorted = true;
+  let prevPeriod = -Infinity;
+  let prevTime = -Infinity;
+
+  for (let i = 0; i < data.numRows; i++) {
+    const period = periodCol[i];
+    const time = timeCol[i];
+    if (isNullAt(data, 'period_id', i) || isNullAt(data, 'matched_time', i) ||
+        Number.isNaN(period) || Number.isNaN(time)) {
+      continue;
+    }
+    if (period < prevPeriod || (period === prevPeriod && time < prevTime)) {
+      isSorted = false;
+    }
+    prevPeriod = period;
+    prevTime = time;
+    rowOrder[validCount++] = i;
+  }
+
+  const order = rowOrder.subarray(0, validCount);
+  if (!isSorted) {
+    order.sort((a, b) => (periodCol[a] - periodCol[b]) || (timeCol[a] - timeCol[b]) || (a - b));
+  }
+
+  // Single pass over the ordered rows to find frame boundaries per period
+  let pos = 0;
+  while (pos < validCount) {
+    const period = periodCol[order[pos]];
+    const times: number[] = [];
+    const starts: number[] = [];
+    const ends: number[] = [];
+
+    while (pos < validCount && periodCol[order[pos]] === period) {
+      const time = timeCol[order[pos]];
+      const start = pos;
+      while (pos < validCount && periodCol[order[pos]] === period && timeCol[order[pos]] === time) {
+        pos++;
+      }
+      times.push(time);
+      starts.push(start);
+      ends.push(pos);
+    }
+
+    periods.set(period, {
+      times,
+      frameRate: detectFrameRate(times),
+      frameStarts: Uint32Array.from(starts),
+      frameEnds: Uint32Array.from(ends),
+    });
+  }
+
+  return { periods, rowOrder: order };
+}
+
+// Get sorted unique frame times for a period (empty if the period has no tracking)
+export function getPeriodTimes(index: FrameIndex, periodId: number): number[] {
+  return index.periods.get(periodId)?.times ?? [];
+}
+
+// Binary search for the first frame with time >= target, or -1 if there is none
+export function findFrameAtOrAfter(times: number[], target: number): number {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (times[mid] < target) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo < times.length ? lo : -1;
+}
+
+// Frame offset of `time` relative to the first frame at or after `baseTime` (null if the period has no tracking)
+export function getFrameOffset(index: FrameIndex, periodId: number, baseTime: number, time: number): number | null {
+  const times = getPeriodTimes(index, periodId);
+  if (times.length === 0) return null;
+
+  const baseIdx = findFrameAtOrAfter(times, baseTime);
+  let targetIdx = findFrameAtOrAfter(times, time);
+  if (targetIdx === -1) targetIdx = times.length - 1;
+
+  return targetIdx - (baseIdx >= 0 ? baseIdx : 0);
+}
+
+// Time from `baseTime` to the frame `frameOffset` frames after its frame (null if the period has no tracking)
+export function getOffsetTime(index: FrameIndex, periodId: number, baseTime: number, frameOffset: number): number | null {
+  const times = getPeriodTimes(index, periodId);
+  if (times.length === 0) return null;
+
+  let baseIdx = findFrameAtOrAfter(times, baseTime);
+  if (baseIdx === -1) baseIdx = times.length - 1;
+  const targetIdx = Math.max(0, Math.min(times.length - 1, baseIdx + frameOffset));
+  return times[targetIdx] - baseTime;
+}
+
+// Get the tracking row indices that belong to one frame
+export function getFrameRowIndices(index: FrameIndex, periodId: number, frameIdx: number): Uint32Array {
+  const period = index.periods.get(periodId);
+  if (!period || frameIdx < 0 || frameIdx >= period.times.length) {
+    return new Uint32Array(0);
+  }
+  return index.rowOrder.subarray(period.frameStarts[frameIdx], period.frameEnds[frameIdx]);
+}
+
+// Get the rows of one frame as row objects
+export function getFrameRows<T>(data: ColumnarData, index: FrameIndex, periodId: number, frameIdx: number): T[] {
+  const rows: T[] = [];
+  for (const rowIdx of getFrameRowIndices(index, periodId, frameIdx)) {
+    rows.push(getRow<T>(data, rowIdx));
+  }
+  return rows;
+}
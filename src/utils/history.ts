@@ -0,0 +1,108 @@
+// Undo/redo history for sync actions
+// Entries store only the records that changed, so bulk actions like uploads stay cheap
+import type { SyncRecord, SyncedResults, SkipRecord, SkippedEvents, PresyncProposal } from '../types';
+
+export interface HistoryChange<T = SyncRecord> {
+  eventId: string;
+  before: T | null;
+  after: T | null;
+}
+
+// Cursor position restored on undo/redo
+export interface HistoryPosition {
+  eventIndex: number;
+  frameOffset: number;
+  lastSyncOffsetMs?: number; // Offset carried to the next event - missing on entries saved before it was restored
+}
+
+export interface HistoryEntry {
+  label: string;
+  changes: HistoryChange[];
+  skipChanges?: HistoryChange<SkipRecord>[]; // Missing on entries saved before skip reasons existed
+  queueChanges?: HistoryChange<PresyncProposal>[]; // Review queue items added or pruned, missing on older entries
+  before: HistoryPosition;
+  after: HistoryPosition;
+}
+
+export interface SyncHistory {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+// Synced and skipped records plus the review queue at one point in time
+export interface ResultsSnapshot {
+  results: SyncedResults;
+  skipped: SkippedEvents;
+  reviewQueue: PresyncProposal[];
+}
+
+export const EMPTY_HISTORY: SyncHistory = { undo: [], redo: [] };
+
+const MAX_HISTORY_ENTRIES = 100;
+
+// Records that differ between two record maps
+export function diffRecords<T>(before: Record<string, T>, after: Record<string, T>): HistoryChange<T>[] {
+  const changes: HistoryChange<T>[] = [];
+  for (const eventId of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (before[eventId] !== after[eventId]) {
+      changes.push({ eventId, before: before[eventId] ?? null, after: after[eventId] ?? null });
+    }
+  }
+  return changes;
+}
+
+// Review queue keyed by event ID, so it can be diffed like the records
+function queueRecords(queue: PresyncProposal[]): Record<string, PresyncProposal> {
+  return Object.fromEntries(queue.map(proposal => [proposal.eventId, proposal]));
+}
+
+// Apply changes to a record map in either direction
+export function applyChanges<T>(records: Record<string, T>, changes: HistoryChange<T>[], direction: 'undo' | 'redo'): Record<string, T> {
+  const newRecords = { ...records };
+  for (const change of changes) {
+    const record = direction === 'undo' ? change.before : change.after;
+    if (record) {
+      newRecords[change.eventId] = record;
+    } else {
+      delete newRecords[change.eventId];
+    }
+  }
+  return newRecords;
+}
+
+// Build an entry from the state before and after an action
+export function createHistoryEntry(
+  label: string,
+  before: ResultsSnapshot,
+  after: ResultsSnapshot,
+  beforePosition: HistoryPosition,
+  afterPosition: HistoryPosition
+): HistoryEntry {
+  return {
+    label,
+    changes: diffRecords(before.results, after.results),
+    skipChanges: diffRecords(before.skipped, after.skipped),
+    queueChanges: diffRecords(queueRecords(before.reviewQueue), queueRecords(after.reviewQueue)),
+    before: beforePosition,
+    after: afterPosition,
+  };
+}
+
+// Apply an entry to the current state in either direction
+export function applyHistoryEntry(snapshot: ResultsSnapshot, entry: HistoryEntry, direction: 'undo' | 'redo'): ResultsSnapshot {
+  return {
+    results: applyChanges(snapshot.results, entry.changes, direction),
+    skipped: applyChanges(snapshot.skipped, entry.skipChanges ?? [], direction),
+    // The queue is kept in ascending confidence, like splitProposals leaves it
+    reviewQueue: Object.values(applyChanges(queueRecords(snapshot.reviewQueue), entry.queueChanges ?? [], direction))
+      .sort((a, b) => a.confidence - b.confidence),
+  };
+}
+
+// Add a new entry - clears the redo stack and drops the oldest entries past the limit
+export function pushHistoryEntry(history: SyncHistory, entry: HistoryEntry): SyncHistory {
+  return {
+    undo: [...history.undo, entry].slice(-MAX_HISTORY_ENTRIES),
+    redo: [],
+  };
+}
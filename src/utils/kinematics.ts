@@ -0,0 +1,248 @@
+// Derived kinematics per tracked object - smoothed velocity, speed and acceleration from positions in meters
+// Objects are players (team_opta_id + jersey_no) and the ball, each split into runs of consecutive samples
+import { isNullAt } from '../types';
+import type { Column, ColumnarData, NumericColumnType } from '../types';
+import { createNullMask, setNull } from './columns';
+
+export type KinematicsFilter = 'savitzky-golay' | 'moving-average';
+
+export interface KinematicsOptions {
+  filter: KinematicsFilter;
+  windowMs: number;  // Smoothing window, converted to an odd number of samples at the object's frame rate
+  polyOrder: number; // Savitzky-Golay polynomial order
+}
+
+export const DEFAULT_KINEMATICS: KinematicsOptions = {
+  filter: 'savitzky-golay',
+  windowMs: 500,
+  polyOrder: 2,
+};
+
+export const KINEMATICS_FILTER_LABELS: Record<KinematicsFilter, string> = {
+  'savitzky-golay': 'Savitzky-Golay',
+  'moving-average': 'Moving average',
+};
+
+// Added columns - velocity in m/s along the pitch axes, speed in m/s, acceleration as change of speed in m/s²
+export const KINEMATICS_COLUMNS: Record<string, NumericColumnType> = {
+  vel_x: 'float32',
+  vel_y: 'float32',
+  speed: 'float32',
+  accel: 'float32',
+};
+
+// Samples further apart than this start a new run - no derivative across dropped frames or substitutions
+const MAX_SAMPLE_GAP_MS = 500;
+
+// Smallest window that gives a derivative - shorter runs are left null
+const MIN_WINDOW_SAMPLES = 3;
+
+// Least-squares fit of a polynomial over a window: (AᵀA)⁻¹Aᵀ, one row per coefficient
+// A has one row per sample offset (-half..half) and one column per power
+function polyFitMatrix(window: number, order: number): number[][] {
+  const half = (window - 1) / 2;
+  const size = order + 1;
+
+  // Normal matrix AᵀA augmented with Aᵀ, solved by Gauss-Jordan elimination
+  const rows: number[][] = [];
+  for (let i = 0; i < size; i++) {
+    const row: number[] = [];
+    for (let j = 0; j < size; j++) {
+      let sum = 0;
+      for (let k = -half; k <= half; k++) sum += k ** (i + j);
+      row.push(sum);
+    }
+    for (let k = -half; k <= half; k++) row.push(k ** i);
+    rows.push(row);
+  }
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < size; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    const scale = rows[col][col];
+    for (let c = 0; c < rows[col].length; c++) rows[col][c] /= scale;
+    for (let r = 0; r < size; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col];
+      for (let c = 0; c < rows[r].length; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+
+  return rows.map(row => row.slice(size));
+}
+
+// Odd window length in samples for a run, at least MIN_WINDOW_SAMPLES and at most the run length
+function windowSamples(windowMs: number, intervalMs: number, length: number): number {
+  let window = Math.max(MIN_WINDOW_SAMPLES, Math.round(windowMs / intervalMs));
+  if (window % 2 === 0) window++;
+  if (window > length) window = length % 2 === 0 ? length - 1 : length;
+  return window;
+}
+
+// First and second derivative of one coordinate of a run (per sample - divided by the interval by the caller)
+type Derivatives = { first: Float64Array; second: Float64Array };
+
+// Savitzky-Golay: fit a polynomial over each window and differentiate it - edge samples use the first/last full window
+function savitzkyGolay(values: Float64Array, window: number, order: number): Derivatives {
+  const n = values.length;
+  const first = new Float64Array(n);
+  const second = new Float64Array(n);
+  const fit = polyFitMatrix(window, Math.min(order, window - 1));
+  const half = (window - 1) / 2;
+  const coefficients = new Float64Array(fit.length);
+
+  for (let i = 0; i < n; i++) {
+    const center = Math.min(Math.max(i, half), n - 1 - half);
+    const t = i - center;
+    for (let j = 0; j < fit.length; j++) {
+      let sum = 0;
+      for (let k = 0; k < window; k++) sum += fit[j][k] * values[center - half + k];
+      coefficients[j] = sum;
+    }
+
+    let d1 = 0;
+    let d2 = 0;
+    for (let j = 1; j < fit.length; j++) d1 += j * coefficients[j] * t ** (j - 1);
+    for (let j = 2; j < fit.length; j++) d2 += j * (j - 1) * coefficients[j] * t ** (j - 2);
+    first[i] = d1;
+    second[i] = d2;
+  }
+
+  return { first, second };
+}
+
+// Central differences (one-sided at the ends)
+function differentiate(values: Float64Array): Float64Array {
+  const n = values.length;
+  const result = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const prev = Math.max(0, i - 1);
+    const next = Math.min(n - 1, i + 1);
+    result[i] = next > prev ? (values[next] - values[prev]) / (next - prev) : 0;
+  }
+  return result;
+}
+
+// Centered mean - the window shrinks symmetrically at the ends so a steady trend isn't bent
+function movingAverage(values: Float64Array, window: number): Float64Array {
+  const n = values.length;
+  const result = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const half = Math.min((window - 1) / 2, i, n - 1 - i);
+    let sum = 0;
+    for (let k = i - half; k <= i + half; k++) sum += values[k];
+    result[i] = sum / (2 * half + 1);
+  }
+  return result;
+}
+
+// Moving average: smooth positions, then difference twice, smoothing the velocity again
+function movingAverageDerivatives(values: Float64Array, window: number): Derivatives {
+  const first = movingAverage(differentiate(movingAverage(values, window)), window);
+  return { first, second: differentiate(first) };
+}
+
+// Add vel_x, vel_y, speed and accel columns - positions must be in meters (before the conversion to Opta units)
+export function addKinematicsColumns(data: ColumnarData, options: KinematicsOptions = DEFAULT_KINEMATICS): ColumnarData {
+  const periodCol = data.columns['period_id'] as ArrayLike<number>;
+  const timeCol = data.columns['matched_time'] as ArrayLike<number>;
+  const teamCol = data.columns['team_opta_id'] as ArrayLike<number>;
+  const jerseyCol = data.columns['jersey_no'] as ArrayLike<number>;
+  const posXCol = data.columns['pos_x'] as ArrayLike<number>;
+  const posYCol = data.columns['pos_y'] as ArrayLike<number>;
+  const ballCol = data.columns['is_ball'] as ArrayLike<number>;
+  // Unmapped parquet columns are returned as is - kinematics are added after the column mapping
+  if (!periodCol || !timeCol || !teamCol || !jerseyCol || !posXCol || !posYCol || !ballCol) return data;
+
+  const { numRows } = data;
+  const isBall = (i: number) => ballCol[i] === 1;
+  const hasPosition = (i: number) =>
+    !isNullAt(data, 'pos_x', i) && !isNullAt(data, 'pos_y', i) && Number.isFinite(posXCol[i]) && Number.isFinite(posYCol[i]);
+
+  // Rows with a position and an identity, ordered by object and time
+  const valid: number[] = [];
+  for (let i = 0; i < numRows; i++) {
+    if (isNullAt(data, 'period_id', i) || isNullAt(data, 'matched_time', i) || !hasPosition(i)) continue;
+    if (!isBall(i) && (isNullAt(data, 'team_opta_id', i) || isNullAt(data, 'jersey_no', i))) continue;
+    valid.push(i);
+  }
+  const order = Uint32Array.from(valid);
+  order.sort((a, b) =>
+    (periodCol[a] - periodCol[b]) ||
+    (Number(isBall(b)) - Number(isBall(a))) ||
+    (isBall(a) ? 0 : (teamCol[a] - teamCol[b]) || (jerseyCol[a] - jerseyCol[b])) ||
+    (timeCol[a] - timeCol[b]) || (a - b));
+
+  const sameObject = (a: number, b: number) =>
+    periodCol[a] === periodCol[b] && isBall(a) === isBall(b) &&
+    (isBall(a) || (teamCol[a] === teamCol[b] && jerseyCol[a] === jerseyCol[b]));
+
+  const velX = new Float32Array(numRows).fill(NaN);
+  const velY = new Float32Array(numRows).fill(NaN);
+  const speed = new Float32Array(numRows).fill(NaN);
+  const accel = new Float32Array(numRows).fill(NaN);
+
+  let start = 0;
+  while (start < order.length) {
+    // Extend the run while the object stays the same and no samples are missing
+    let end = start + 1;
+    while (end < order.length &&
+      sameObject(order[start], order[end]) &&
+      timeCol[order[end]] - timeCol[order[end - 1]] > 0 &&
+      timeCol[order[end]] - timeCol[order[end - 1]] <= MAX_SAMPLE_GAP_MS) {
+      end++;
+    }
+
+    const length = end - start;
+    if (length >= MIN_WINDOW_SAMPLES) {
+      const rows = order.subarray(start, end);
+      const intervalMs = (timeCol[rows[length - 1]] - timeCol[rows[0]]) / (length - 1);
+      const dt = intervalMs / 1000;
+      const window = windowSamples(options.windowMs, intervalMs, length);
+
+      const xs = Float64Array.from(rows, row => posXCol[row]);
+      const ys = Float64Array.from(rows, row => posYCol[row]);
+      const derive = (values: Float64Array) => options.filter === 'savitzky-golay'
+        ? savitzkyGolay(values, window, options.polyOrder)
+        : movingAverageDerivatives(values, window);
+      const dx = derive(xs);
+      const dy = derive(ys);
+
+      for (let k = 0; k < length; k++) {
+        const vx = dx.first[k] / dt;
+        const vy = dy.first[k] / dt;
+        const v = Math.hypot(vx, vy);
+        const row = rows[k];
+        velX[row] = vx;
+        velY[row] = vy;
+        speed[row] = v;
+        // Tangential acceleration - the change of speed along the direction of movement
+        accel[row] = v > 0 ? (vx * dx.second[k] + vy * dy.second[k]) / (dt * dt * v) : 0;
+      }
+    }
+
+    start = end;
+  }
+
+  const columns: Record<string, Column> = { ...data.columns, vel_x: velX, vel_y: velY, speed, accel };
+  const nullMasks = { ...data.nullMasks };
+  for (const name of Object.keys(KINEMATICS_COLUMNS)) {
+    const values = columns[name] as Float32Array;
+    let mask: Uint8Array | null = null;
+    for (let i = 0; i < numRows; i++) {
+      if (Number.isNaN(values[i])) {
+        if (!mask) mask = createNullMask(numRows);
+        setNull(mask, i);
+      }
+    }
+    if (mask) nullMasks[name] = mask;
+    else delete nullMasks[name];
+  }
+
+  const fieldNames = [...data.fieldNames.filter(name => !(name in KINEMATICS_COLUMNS)), ...Object.keys(KINEMATICS_COLUMNS)];
+  return { ...data, columns, nullMasks, fieldNames };
+}
@@ -0,0 +1,31 @@
+// Line-by-line reading of large text files (tracking feeds) without loading them into one string
+
+// Read a file in chunks, calling onLine for every line and onProgress with the fraction of bytes read
+export async function readLines(
+  file: Blob,
+  onLine: (line: string) => void,
+  onProgress?: (fraction: number) => void
+): Promise<void> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let remainder = '';
+  let bytesRead = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    bytesRead += value.byteLength;
+    const lines = (remainder + decoder.decode(value, { stream: true })).split('\n');
+    remainder = lines.pop() ?? '';
+    for (const line of lines) {
+      onLine(line.endsWith('\r') ? line.slice(0, -1) : line);
+    }
+    onProgress?.(file.size > 0 ? bytesRead / file.size : 1);
+  }
+
+  remainder += decoder.decode();
+  if (remainder) {
+    onLine(remainder.endsWith('\r') ? remainder.slice(0, -1) : remainder);
+  }
+}
@@ -0,0 +1,209 @@
+// Lineup/squad file importer (JSON or CSV) with team and player names
+import type { EventRow, Lineup, LineupPlayer, LineupTeam } from '../types';
+
+// Opta IDs are sometimes prefixed (e.g. "t123", "p4567")
+function toId(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(String(value).replace(/^[a-z]+/i, ''));
+  return Number.isFinite(num) ? num : null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+// First present value among alternative key names
+function pick(obj: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) {
+    if (obj[key] !== undefined && obj[key] !== null && obj[key] !== '') return obj[key];
+  }
+  return undefined;
+}
+
+const TEAM_ID_KEYS = ['teamId', 'team_id', 'team_opta_id', 'optaId', 'id'];
+const TEAM_NAME_KEYS = ['name', 'teamName', 'team_name'];
+const PLAYER_ID_KEYS = ['playerId', 'player_id', 'player_opta_id', 'optaId', 'id'];
+const PLAYER_NAME_KEYS = ['name', 'playerName', 'player_name', 'fullName'];
+const JERSEY_KEYS = ['jersey', 'jersey_no', 'jerseyNumber', 'jersey_number', 'shirtNumber', 'shirt_number', 'number'];
+const POSITION_KEYS = ['position', 'pos'];
+const SUB_ON_KEYS = ['subOn', 'sub_on', 'minuteOn', 'minute_on'];
+const SUB_OFF_KEYS = ['subOff', 'sub_off', 'minuteOff', 'minute_off'];
+
+function readPlayer(raw: Record<string, unknown>): LineupPlayer {
+  return {
+    playerId: toId(pick(raw, PLAYER_ID_KEYS)),
+    name: toText(pick(raw, PLAYER_NAME_KEYS)) ?? 'Unknown',
+    jersey: toNumber(pick(raw, JERSEY_KEYS)),
+    position: toText(pick(raw, POSITION_KEYS)),
+    subOn: toNumber(pick(raw, SUB_ON_KEYS)),
+    subOff: toNumber(pick(raw, SUB_OFF_KEYS)),
+  };
+}
+
+// StatsBomb open-data lineup entry - positions carry "MM:SS" from/to clock times and start/end reasons
+interface StatsBombLineupPlayer {
+  player_id: number;
+  player_name: string;
+  player_nickname?: string | null;
+  jersey_number: number;
+  positions?: { position: string; from: string | null; to: string | null; start_reason: string; end_reason: string }[];
+}
+
+function clockMinute(clock: string | null): number | null {
+  if (!clock) return null;
+  const minutes = Number(clock.split(':')[0]);
+  return Number.isFinite(minutes) ? minutes : null;
+}
+
+function readStatsBombTeam(raw: { team_id: number; team_name: string; lineup: StatsBombLineupPlayer[] }): LineupTeam {
+  return {
+    teamId: raw.team_id,
+    name: raw.team_name,
+    players: raw.lineup.map(player => {
+      const positions = player.positions ?? [];
+      const first = positions[0];
+      const last = positions[positions.length - 1];
+      return {
+        playerId: player.player_id,
+        name: player.player_nickname || player.player_name,
+        jersey: player.jersey_number,
+        position: first?.position ?? null,
+        subOn: first && first.start_reason.startsWith('Substitution') ? clockMinute(first.from) : null,
+        subOff: last && last.end_reason.startsWith('Substitution') ? clockMinute(last.to) : null,
+      };
+    }),
+  };
+}
+
+// Parse a lineup JSON file - either { teams: [{ teamId, name, players: [...] }] } or a StatsBomb lineups file
+export function parseLineupJson(json: string): Lineup {
+  const parsed = JSON.parse(json);
+
+  if (Array.isArray(parsed) && parsed.every(t => t && Array.isArray(t.lineup) && 'team_id' in t)) {
+    return { teams: parsed.map(readStatsBombTeam) };
+  }
+
+  const rawTeams = Array.isArray(parsed) ? parsed : parsed?.teams;
+  if (!Array.isArray(rawTeams)) {
+    throw new Error('Lineup JSON must contain a teams array');
+  }
+
+  const teams = rawTeams.map((raw: Record<string, unknown>): LineupTeam => {
+    const teamId = toId(pick(raw, TEAM_ID_KEYS));
+    const players = pick(raw, ['players', 'squad', 'lineup']);
+    if (teamId === null || !Array.isArray(players)) {
+      throw new Error('Each lineup team needs a team ID and a players array');
+    }
+    return {
+      teamId,
+      name: toText(pick(raw, TEAM_NAME_KEYS)) ?? `Team ${teamId}`,
+      players: players.map(readPlayer),
+    };
+  });
+
+  return { teams };
+}
+
+// Split a CSV line, honouring double-quoted cells
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+// Parse a lineup CSV file - one row per player with team_id, team_name, player_id, player_name, jersey, position, sub_on, sub_off
+export function parseLineupCsv(csv: string): Lineup {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim() !== '');
+  const header = lines[0] ? splitCsvLine(lines[0]).map(name => name.trim()) : [];
+  if (!header.includes('team_id') || !header.some(name => PLAYER_NAME_KEYS.includes(name))) {
+    throw new Error('Lineup CSV needs team_id and player_name columns');
+  }
+
+  const teams = new Map<number, LineupTeam>();
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line);
+    const raw = Object.fromEntries(header.map((name, i) => [name, cells[i]?.trim() ?? '']));
+    const teamId = toId(raw.team_id);
+    if (teamId === null) continue;
+
+    if (!teams.has(teamId)) {
+      teams.set(teamId, { teamId, name: toText(raw.team_name) ?? `Team ${teamId}`, players: [] });
+    }
+    // Plain "name"/"id" columns would be ambiguous with the team columns
+    teams.get(teamId)!.players.push(readPlayer({ ...raw, name: undefined, id: undefined }));
+  }
+
+  return { teams: [...teams.values()] };
+}
+
+// Name lookups for the pitch and event panel
+export interface LineupLookup {
+  teamName(teamId: number): string | null;
+  player(teamId: number, jersey: number | null): LineupPlayer | null;
+  playerById(playerId: number | null): LineupPlayer | null;
+}
+
+export function createLineupLookup(lineup: Lineup | null | undefined): LineupLookup {
+  const teams = new Map((lineup?.teams ?? []).map(team => [team.teamId, team]));
+  const byId = new Map<number, LineupPlayer>();
+  for (const team of teams.values()) {
+    for (const player of team.players) {
+      if (player.playerId !== null) byId.set(player.playerId, player);
+    }
+  }
+
+  return {
+    teamName: teamId => teams.get(teamId)?.name ?? null,
+    player: (teamId, jersey) =>
+      jersey === null ? null : teams.get(teamId)?.players.find(p => p.jersey === jersey) ?? null,
+    playerById: playerId => (playerId === null ? null : byId.get(playerId) ?? null),
+  };
+}
+
+// Lineup player of an event - by player ID, falling back to team and jersey number
+export function getEventPlayer(lookup: LineupLookup, event: EventRow): LineupPlayer | null {
+  const jersey = Number(event.jersey_no);
+  return lookup.playerById(event.player_id ?? null) ??
+    lookup.player(event.team_id, event.jersey_no === null || !Number.isFinite(jersey) ? null : jersey);
+}
+
+// Player ID -> jersey number, for mapping jersey numbers onto events
+export function getLineupJerseys(lineup: Lineup): Map<number, number> {
+  const jerseys = new Map<number, number>();
+  for (const team of lineup.teams) {
+    for (const player of team.players) {
+      if (player.playerId !== null && player.jersey !== null) jerseys.set(player.playerId, player.jersey);
+    }
+  }
+  return jerseys;
+}
@@ -0,0 +1,73 @@
+// Linked event groups - events that must share one sync frame
+// (both sides of an aerial duel or an out-of-bounds pair, plus a shot or clearance at the same moment)
+import type { ColumnarData } from '../types';
+import { getEventCategory } from './eventCategories';
+
+export interface EventGroup {
+  key: string;       // Event IDs joined with '+', stable across reloads
+  indices: number[]; // Event indices in chronological order
+}
+
+// Max time between the first and last event of a group
+export const LINKED_GROUP_WINDOW_MS = 1000;
+
+// Clearance (12) and shots (13-16) that can follow an aerial duel at the same moment
+const FOLLOW_UP_TYPES = new Set([12, 13, 14, 15, 16]);
+
+// Find paired aerial/out-of-bounds events from opposite teams and attach shots/clearances following an aerial duel
+export function detectLinkedGroups(events: ColumnarData, windowMs: number = LINKED_GROUP_WINDOW_MS): EventGroup[] {
+  const eventIdCol = events.columns['opta_event_id'];
+  const typeCol = events.columns['event_type_id'] as (string | number)[];
+  const teamCol = events.columns['team_id'] as number[];
+  const periodCol = events.columns['period_id'] as number[];
+  const timeCol = events.columns['matched_time'] as number[];
+  if (!typeCol || !teamCol || !periodCol || !timeCol) return [];
+
+  // Same period and within the window of event i
+  const inWindow = (i: number, j: number) =>
+    periodCol[j] === periodCol[i] && Math.abs(timeCol[j] - timeCol[i]) <= windowMs;
+
+  const grouped = new Set<number>();
+  const groups: EventGroup[] = [];
+
+  for (let i = 0; i < events.numRows; i++) {
+    if (grouped.has(i)) continue;
+    const category = getEventCategory(typeCol[i]);
+    if (category !== 'aerial' && category !== 'outofbounds') continue;
+
+    let partner = -1;
+    for (let j = i + 1; j < events.numRows && inWindow(i, j); j++) {
+      if (!grouped.has(j) && getEventCategory(typeCol[j]) === category && teamCol[j] !== teamCol[i]) {
+        partner = j;
+        break;
+      }
+    }
+    if (partner === -1) continue;
+
+    const indices = [i, partner];
+    for (let k = i + 1; category === 'aerial' && k < events.numRows && inWindow(i, k); k++) {
+      if (k !== partner && !grouped.has(k) && FOLLOW_UP_TYPES.has(Number(typeCol[k]))) {
+        indices.push(k);
+      }
+    }
+    indices.sort((a, b) => a - b);
+
+    for (const index of indices) grouped.add(index);
+    groups.push({
+      key: indices.map(index => String(eventIdCol?.[index] ?? index)).join('+'),
+      indices,
+    });
+  }
+
+  return groups;
+}
+
+// The other side of an aerial duel or out-of-bounds pair in a group - the detectors pair on the same groups that are synced together
+export function findPairedEventIndex(events: ColumnarData, group: EventGroup | null, eventIndex: number): number | null {
+  const typeCol = events.columns['event_type_id'] as (string | number)[];
+  if (!group || !typeCol) return null;
+
+  const category = getEventCategory(typeCol[eventIndex]);
+  if (category !== 'aerial' && category !== 'outofbounds') return null;
+  return group.indices.find(index => index !== eventIndex && getEventCategory(typeCol[index]) === category) ?? null;
+}
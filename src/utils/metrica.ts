@@ -0,0 +1,154 @@
+// Metrica Sports importer - wide home/away tracking CSVs and the events CSV
+// Coordinates are normalized 0-1 from the top-left corner of the pitch
+import { HOME_TEAM_ID, AWAY_TEAM_ID } from '../types';
+import type { ColumnarData, EventRow, PitchDimensions } from '../types';
+import { rowsToColumnar } from './columns';
+import type { ColumnsBuilder } from './columns';
+import { convertPoint } from './coordinates';
+
+// Pitch size of the public Metrica sample games
+export const METRICA_PITCH: PitchDimensions = { length: 105, width: 68 };
+
+export interface MetricaTrackingOptions {
+  pitch: PitchDimensions;
+  includeBall: boolean; // The ball is repeated in both team files - only read it from one
+}
+
+function teamIdFromName(name: string): number {
+  return name.trim().toLowerCase() === 'away' ? AWAY_TEAM_ID : HOME_TEAM_ID;
+}
+
+// Line parser for one team's tracking CSV
+// Header rows: team name per column, jersey numbers, then column names (Period, Frame, Time [s], PlayerN, "", ..., Ball, "")
+export function createMetricaTrackingParser(builder: ColumnsBuilder, options: MetricaTrackingOptions): (line: string) => void {
+  const { pitch, includeBall } = options;
+  const toMeters = (x: number, y: number) => convertPoint({ x, y }, 'normalized', 'metric-centered', pitch);
+  let lineNo = 0;
+  let teamId = HOME_TEAM_ID;
+  const players: { jersey: number; column: number }[] = [];
+  let ballColumn = -1;
+  const periodStarts = new Map<number, number>();
+
+  return (line: string) => {
+    lineNo++;
+    const cells = line.split(',');
+
+    if (lineNo === 1) {
+      const team = cells.find(c => c.trim() !== '');
+      if (team) teamId = teamIdFromName(team);
+      return;
+    }
+    if (lineNo === 2) return; // Jersey numbers - repeated in the PlayerN column names
+
+    if (lineNo === 3) {
+      cells.forEach((name, column) => {
+        const match = /^Player(\d+)$/.exec(name.trim());
+        if (match) {
+          players.push({ jersey: Number(match[1]), column });
+        } else if (name.trim() === 'Ball') {
+          ballColumn = column;
+        }
+      });
+      return;
+    }
+
+    const period = Number(cells[0]);
+    const seconds = Number(cells[2]);
+    if (!Number.isFinite(period) || !Number.isFinite(seconds)) return;
+
+    // Time since the first frame of the period in milliseconds
+    if (!periodStarts.has(period)) periodStarts.set(period, seconds);
+    const time = Math.round((seconds - periodStarts.get(period)!) * 1000);
+
+    for (const { jersey, column } of players) {
+      const x = Number(cells[column]);
+      const y = Number(cells[column + 1]);
+      if (!Number.isFinite(x) || !Number.isFinite(y)) continue; // Player not on the pitch
+      const meters = toMeters(x, y);
+      builder.push([period, time, teamId, jersey, meters.x, meters.y, 0]);
+    }
+
+    if (includeBall && ballColumn >= 0) {
+      const x = Number(cells[ballColumn]);
+      const y = Number(cells[ballColumn + 1]);
+      if (Number.isFinite(x) && Number.isFinite(y)) {
+        const meters = toMeters(x, y);
+        builder.push([period, time, -1, null, meters.x, meters.y, 1]);
+      }
+    }
+  };
+}
+
+// Map a Metrica type/subtype onto the Opta event type IDs used by the filter and categories
+function toOptaEventType(type: string, subtype: string): number | null {
+  if (subtype.includes('CLEARANCE')) return 12;
+  if (subtype.includes('AERIAL')) return 44;
+
+  switch (type) {
+    case 'PASS':
+      return 1;
+    case 'SHOT':
+      if (subtype.includes('GOAL')) return 16;
+      if (subtype.includes('ON TARGET')) return 15;
+      return 13;
+    case 'RECOVERY':
+      return subtype.includes('INTERCEPTION') ? 8 : 49;
+    case 'BALL OUT':
+      return 5;
+    default:
+      return null;
+  }
+}
+
+// Parse the events CSV into event columns (coordinates converted to Opta 0-100)
+export function parseMetricaEvents(csv: string): ColumnarData {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim() !== '');
+  const header = lines[0]?.split(',').map(name => name.trim());
+  if (!header || !header.includes('Type') || !header.includes('Start Time [s]')) {
+    throw new Error('Not a Metrica events CSV - expected Type and Start Time [s] columns');
+  }
+
+  const col = (name: string) => header.indexOf(name);
+  const [teamCol, typeCol, subtypeCol, periodCol, timeCol, fromCol] =
+    ['Team', 'Type', 'Subtype', 'Period', 'Start Time [s]', 'From'].map(col);
+  const [startXCol, startYCol, endXCol, endYCol] = ['Start X', 'Start Y', 'End X', 'End Y'].map(col);
+
+  const toOpta = (x: string, y: string) => convertPoint({ x: Number(x), y: Number(y) }, 'normalized', 'opta', METRICA_PITCH);
+
+  // Times are relative to the first event of each period (the kick-off), matching the tracking
+  const periodStarts = new Map<number, number>();
+  const rows: Record<keyof EventRow, unknown>[] = [];
+
+  lines.slice(1).forEach((line, i) => {
+    const cells = line.split(',');
+    const period = Number(cells[periodCol]);
+    const seconds = Number(cells[timeCol]);
+    if (!periodStarts.has(period)) periodStarts.set(period, seconds);
+
+    const type = cells[typeCol]?.trim() ?? '';
+    const subtype = cells[subtypeCol]?.trim() ?? '';
+    const jersey = /^Player(\d+)$/.exec(cells[fromCol]?.trim() ?? '');
+    const start = toOpta(cells[startXCol], cells[startYCol]);
+    const end = toOpta(cells[endXCol], cells[endYCol]);
+
+    rows.push({
+      opta_event_id: i + 1,
+      period_id: period,
+      matched_time: Math.round((seconds - periodStarts.get(period)!) * 1000),
+      team_id: teamIdFromName(cells[teamCol] ?? ''),
+      player_id: null, // Metrica only identifies players by jersey number
+      jersey_no: jersey ? Number(jersey[1]) : null,
+      x: start.x,
+      y: start.y,
+      pass_end_x: end.x,
+      pass_end_y: end.y,
+      event_type_id: toOptaEventType(type, subtype),
+      event_type_desc: subtype ? `${type} - ${subtype}` : type,
+    });
+  });
+
+  return rowsToColumnar(rows, [
+    'opta_event_id', 'period_id', 'matched_time', 'team_id', 'player_id', 'jersey_no',
+    'x', 'y', 'pass_end_x', 'pass_end_y', 'event_type_id', 'event_type_desc',
+  ]);
+}
@@ -0,0 +1,100 @@
+// Opta F24 XML event feed importer
+import type { ColumnarData } from '../types';
+import { rowsToColumnar } from './columns';
+import { OPTA_EVENT_TYPE_NAMES } from './eventCategories';
+
+// Period start (type 32) marks the kick-off each event time is measured from
+const PERIOD_START_TYPE = 32;
+
+// Match clock minute each period starts at, used when an event has no timestamp
+const PERIOD_START_MINUTES: Record<number, number> = { 1: 0, 2: 45, 3: 90, 4: 105, 5: 120 };
+
+const END_X_QUALIFIER = '140';
+const END_Y_QUALIFIER = '141';
+
+const F24_FIELDS = [
+  'opta_event_id', 'event_id', 'period_id', 'matched_time', 'team_id', 'player_id', 'jersey_no',
+  'x', 'y', 'pass_end_x', 'pass_end_y', 'event_type_id', 'event_type_desc', 'outcome',
+] as const;
+
+type F24Field = typeof F24_FIELDS[number];
+
+// Parse the F24 XML into event columns (main thread only - DOMParser isn't available in workers)
+// opta_event_id is the feed-wide unique `id` - `event_id` only counts up per team and is kept alongside
+export function parseOptaF24(xml: string): ColumnarData {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Invalid Opta F24 XML');
+  }
+
+  const eventEls = Array.from(doc.querySelectorAll('Game > Event'));
+  if (eventEls.length === 0) {
+    throw new Error('Opta F24 XML has no <Game> events');
+  }
+
+  const readNumber = (el: Element, attr: string): number | null => {
+    const value = el.getAttribute(attr);
+    if (value === null || value === '') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+  };
+
+  const readTimestamp = (el: Element): number | null => {
+    const value = el.getAttribute('timestamp');
+    if (!value) return null;
+    const ms = Date.parse(value);
+    return Number.isFinite(ms) ? ms : null;
+  };
+
+  // Kick-off timestamp of each period
+  const periodStarts = new Map<number, number>();
+  for (const el of eventEls) {
+    const period = readNumber(el, 'period_id');
+    const timestamp = readTimestamp(el);
+    if (readNumber(el, 'type_id') === PERIOD_START_TYPE && period !== null && timestamp !== null && !periodStarts.has(period)) {
+      periodStarts.set(period, timestamp);
+    }
+  }
+
+  // Time since the start of the period in milliseconds
+  const periodTime = (el: Element, period: number | null): number | null => {
+    const timestamp = readTimestamp(el);
+    const start = period !== null ? periodStarts.get(period) : undefined;
+    if (timestamp !== null && start !== undefined) return timestamp - start;
+
+    const min = readNumber(el, 'min');
+    const sec = readNumber(el, 'sec');
+    if (min === null || sec === null || period === null) return null;
+    return ((min - (PERIOD_START_MINUTES[period] ?? 0)) * 60 + sec) * 1000;
+  };
+
+  const qualifier = (el: Element, qualifierId: string): number | null => {
+    const q = Array.from(el.children).find(c => c.tagName === 'Q' && c.getAttribute('qualifier_id') === qualifierId);
+    if (!q) return null;
+    const num = Number(q.getAttribute('value'));
+    return Number.isFinite(num) ? num : null;
+  };
+
+  const rows = eventEls.map((el): Record<F24Field, unknown> => {
+    const period = readNumber(el, 'period_id');
+    const typeId = readNumber(el, 'type_id');
+    return {
+      opta_event_id: readNumber(el, 'id'),
+      event_id: readNumber(el, 'event_id'),
+      period_id: period,
+      matched_time: periodTime(el, period),
+      team_id: readNumber(el, 'team_id'),
+      player_id: readNumber(el, 'player_id'),
+      jersey_no: null, // Filled in from tracking by player_id
+      x: readNumber(el, 'x'),
+      y: readNumber(el, 'y'),
+      pass_end_x: qualifier(el, END_X_QUALIFIER),
+      pass_end_y: qualifier(el, END_Y_QUALIFIER),
+      event_type_id: typeId,
+      event_type_desc: typeId !== null ? OPTA_EVENT_TYPE_NAMES[typeId] ?? null : null,
+      outcome: readNumber(el, 'outcome'),
+    };
+  });
+
+  return rowsToColumnar(rows, [...F24_FIELDS]);
+}
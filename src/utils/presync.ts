@@ -0,0 +1,73 @@
+// Batch pre-sync: runs the sync detectors over many events in a worker
+import type { ColumnarData, FrameIndex, PitchDimensions, PresyncProposal } from '../types';
+import { pickColumns, getTransferables } from './columns';
+
+// Import Web Worker
+import DetectorWorker from '../workers/detectorWorker?worker';
+
+// Default confidence above which proposals are accepted without review
+export const DEFAULT_PRESYNC_THRESHOLD = 0.8;
+
+// Tracking columns the detectors read - rows are found through the frame index, so period and time aren't sent
+const DETECTOR_COLUMNS = ['team_opta_id', 'jersey_no', 'pos_x', 'pos_y', 'is_ball'];
+
+// Run the detectors for the given event indices in a worker
+// Only copies of the detector columns are sent, as transferables, together with the page's frame index
+export function runPresync(
+  tracking: ColumnarData,
+  frameIndex: FrameIndex,
+  events: ColumnarData,
+  eventIndices: number[],
+  pitch: PitchDimensions | undefined,
+  onProgress: (progress: number) => void
+): Promise<PresyncProposal[]> {
+  return new Promise((resolve, reject) => {
+    const worker = new DetectorWorker();
+    const id = 1;
+
+    worker.onmessage = (e: MessageEvent) => {
+      if (e.data.id !== id) return;
+
+      if (e.data.type === 'progress') {
+        onProgress(e.data.progress);
+      } else if (e.data.type === 'success') {
+        worker.terminate();
+        resolve(e.data.proposals);
+      } else if (e.data.type === 'error') {
+        worker.terminate();
+        reject(new Error(e.data.error));
+      }
+    };
+
+    worker.onerror = (e: ErrorEvent) => {
+      worker.terminate();
+      reject(new Error(e.message));
+    };
+
+    const detectorTracking = pickColumns(tracking, DETECTOR_COLUMNS);
+    worker.postMessage(
+      { type: 'presync', id, tracking: detectorTracking, frameIndex, events, eventIndices, pitch },
+      getTransferables(detectorTracking)
+    );
+  });
+}
+
+// Split proposals into auto-accepted ones and a review queue ordered by ascending confidence
+export function splitProposals(
+  proposals: PresyncProposal[],
+  threshold: number
+): { accepted: PresyncProposal[]; reviewQueue: PresyncProposal[] } {
+  const accepted: PresyncProposal[] = [];
+  const reviewQueue: PresyncProposal[] = [];
+
+  for (const proposal of proposals) {
+    if (proposal.detector !== null && proposal.confidence >= threshold) {
+      accepted.push(proposal);
+    } else {
+      reviewQueue.push(proposal);
+    }
+  }
+
+  reviewQueue.sort((a, b) => a.confidence - b.confidence);
+  return { accepted, reviewQueue };
+}
@@ -0,0 +1,116 @@
+// Second Spectrum tracking importer - line-delimited JSON frames plus a metadata JSON file
+import { NUMERIC_TRACKING_COLUMNS, HOME_TEAM_ID, AWAY_TEAM_ID } from '../types';
+import type { NumericColumnType } from '../types';
+import type { ColumnsBuilder } from './columns';
+
+// Tracking columns plus the Opta player ID used to map jersey numbers onto events
+export const SECOND_SPECTRUM_COLUMNS: Record<string, NumericColumnType> = {
+  ...NUMERIC_TRACKING_COLUMNS,
+  player_opta_id: 'int32',
+};
+
+export interface SecondSpectrumPeriod {
+  id: number;
+  startFrame: number;
+}
+
+export interface SecondSpectrumMetadata {
+  frameRate: number;
+  pitchLength: number; // meters
+  pitchWidth: number;
+  periods: SecondSpectrumPeriod[];
+  homeTeamId: number;
+  awayTeamId: number;
+  playerOptaIds: Record<string, number>; // Second Spectrum player ID -> Opta player ID
+}
+
+interface MetadataPlayer {
+  optaId?: string | number;
+  ssiId?: string;
+}
+
+interface FramePlayer {
+  playerId?: string;
+  number?: number;
+  xyz?: number[];
+}
+
+interface Frame {
+  period?: number;
+  frameIdx?: number;
+  homePlayers?: FramePlayer[];
+  awayPlayers?: FramePlayer[];
+  ball?: { xyz?: number[] };
+}
+
+// Opta IDs are sometimes prefixed (e.g. "t123", "p4567")
+function parseOptaId(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const num = Number(String(value).replace(/^[a-z]+/i, ''));
+  return Number.isFinite(num) ? num : null;
+}
+
+// Parse the metadata JSON file
+export function parseSecondSpectrumMetadata(json: string): SecondSpectrumMetadata {
+  const meta = JSON.parse(json);
+  if (typeof meta !== 'object' || meta === null || !Array.isArray(meta.periods)) {
+    throw new Error('Second Spectrum metadata has no periods');
+  }
+
+  const frameRate = Number(meta.fps);
+  const pitchLength = Number(meta.pitchLength);
+  const pitchWidth = Number(meta.pitchWidth);
+  if (!Number.isFinite(frameRate) || !Number.isFinite(pitchLength) || !Number.isFinite(pitchWidth)) {
+    throw new Error('Second Spectrum metadata is missing fps, pitchLength or pitchWidth');
+  }
+
+  const periods = (meta.periods as { number?: number; startFrameIdx?: number; endFrameIdx?: number }[])
+    .filter(p => Number.isFinite(p.number) && Number.isFinite(p.startFrameIdx) && (p.endFrameIdx ?? 0) > (p.startFrameIdx ?? 0))
+    .map(p => ({ id: p.number!, startFrame: p.startFrameIdx! }));
+
+  const playerOptaIds: Record<string, number> = {};
+  for (const player of [...(meta.homePlayers ?? []), ...(meta.awayPlayers ?? [])] as MetadataPlayer[]) {
+    const optaId = parseOptaId(player.optaId);
+    if (player.ssiId && optaId !== null) {
+      playerOptaIds[player.ssiId] = optaId;
+    }
+  }
+
+  return {
+    frameRate,
+    pitchLength,
+    pitchWidth,
+    periods,
+    // Fall back to home/away placeholders when the Opta team IDs are missing
+    homeTeamId: parseOptaId(meta.homeOptaId) ?? HOME_TEAM_ID,
+    awayTeamId: parseOptaId(meta.awayOptaId) ?? AWAY_TEAM_ID,
+    playerOptaIds,
+  };
+}
+
+// Append one JSONL frame to the tracking columns (positions are already meters from the center spot)
+export function appendSecondSpectrumFrame(line: string, meta: SecondSpectrumMetadata, builder: ColumnsBuilder): void {
+  const frame = JSON.parse(line) as Frame;
+  const period = meta.periods.find(p => p.id === frame.period);
+  if (!period || frame.frameIdx === undefined) return;
+
+  // Time since the start of the period in milliseconds
+  const time = Math.round(((frame.frameIdx - period.startFrame) * 1000) / meta.frameRate);
+
+  const teams: [FramePlayer[] | undefined, number][] = [
+    [frame.homePlayers, meta.homeTeamId],
+    [frame.awayPlayers, meta.awayTeamId],
+  ];
+  for (const [players, teamId] of teams) {
+    for (const player of players ?? []) {
+      if (!player.xyz) continue;
+      const optaId = player.playerId !== undefined ? meta.playerOptaIds[player.playerId] ?? -1 : -1;
+      builder.push([period.id, time, teamId, player.number ?? null, player.xyz[0], player.xyz[1], 0, optaId]);
+    }
+  }
+
+  const ball = frame.ball?.xyz;
+  if (ball) {
+    builder.push([period.id, time, -1, null, ball[0], ball[1], 1, -1]);
+  }
+}
@@ -0,0 +1,145 @@
+// StatsBomb open-data events importer
+// Coordinates are 120x80 yards from the top-left corner, with the acting team attacking left to right (as in Opta)
+import type { ColumnarData } from '../types';
+import { rowsToColumnar } from './columns';
+import { convertPoint } from './coordinates';
+
+interface Named {
+  id?: number;
+  name?: string;
+}
+
+interface StatsBombEvent {
+  id: string;
+  period: number;
+  timestamp: string; // "HH:MM:SS.mmm" since the start of the period
+  type: Named;
+  team?: Named;
+  player?: Named;
+  location?: number[];
+  out?: boolean;
+  pass?: { end_location?: number[]; outcome?: Named; aerial_won?: boolean };
+  shot?: { end_location?: number[]; outcome?: Named; aerial_won?: boolean };
+  clearance?: { aerial_won?: boolean };
+  miscontrol?: { aerial_won?: boolean };
+  duel?: { type?: Named };
+}
+
+const EVENT_FIELDS = [
+  'opta_event_id', 'period_id', 'matched_time', 'team_id', 'player_id', 'jersey_no', 'player_name',
+  'x', 'y', 'pass_end_x', 'pass_end_y', 'event_type_id', 'event_type_desc',
+] as const;
+
+type EventField = typeof EVENT_FIELDS[number];
+
+const OPTA_AERIAL = 44;
+const OPTA_OUT = 5;
+
+// Map a StatsBomb event onto the Opta event type IDs used by the filter and categories
+function toOptaEventType(event: StatsBombEvent): number | null {
+  switch (event.type.name) {
+    case 'Pass':
+      return event.pass?.outcome?.name === 'Pass Offside' ? 2 : 1;
+    case 'Shot':
+      switch (event.shot?.outcome?.name) {
+        case 'Goal':
+          return 16;
+        case 'Post':
+          return 14;
+        case 'Saved':
+        case 'Saved to Post':
+        case 'Blocked':
+          return 15;
+        default:
+          return 13;
+      }
+    case 'Clearance':
+      return 12;
+    case 'Interception':
+      return 8;
+    case 'Ball Recovery':
+      return 49;
+    case 'Duel':
+      return event.duel?.type?.name === 'Aerial Lost' ? OPTA_AERIAL : null;
+    default:
+      return null;
+  }
+}
+
+// The winner of an aerial duel is only flagged on their next action - Opta records it as its own event
+function wonAerial(event: StatsBombEvent): boolean {
+  return Boolean(event.pass?.aerial_won || event.shot?.aerial_won || event.clearance?.aerial_won || event.miscontrol?.aerial_won);
+}
+
+// "HH:MM:SS.mmm" -> milliseconds
+function parseTimestamp(timestamp: string): number | null {
+  const match = /^(\d+):(\d+):(\d+(?:\.\d+)?)$/.exec(timestamp);
+  if (!match) return null;
+  return Math.round(((Number(match[1]) * 60 + Number(match[2])) * 60 + Number(match[3])) * 1000);
+}
+
+const toOpta = (location: number[]) => convertPoint({ x: location[0], y: location[1] }, 'statsbomb', 'opta');
+const toOptaX = (location?: number[]) => (location ? toOpta(location).x : null);
+const toOptaY = (location?: number[]) => (location ? toOpta(location).y : null);
+
+// Parse a StatsBomb events JSON file into event columns (coordinates converted to Opta 0-100)
+// Won aerial duels and balls going out of play get an extra Opta-style event (44 / 5) with a suffixed ID
+export function parseStatsBombEvents(json: string): ColumnarData {
+  const events = JSON.parse(json) as StatsBombEvent[];
+  if (!Array.isArray(events) || events.some(e => typeof e?.type?.name !== 'string' || typeof e.timestamp !== 'string')) {
+    throw new Error('Not a StatsBomb events file - expected an array of events with type and timestamp');
+  }
+
+  const rows: Record<EventField, unknown>[] = [];
+  for (const event of events) {
+    const base = {
+      period_id: event.period,
+      matched_time: parseTimestamp(event.timestamp),
+      team_id: event.team?.id ?? null,
+      player_id: event.player?.id ?? null, // StatsBomb IDs - matched with a StatsBomb lineup file
+      jersey_no: null, // Not part of the events feed - mapped from a lineup
+      player_name: event.player?.name ?? null,
+    };
+    const endLocation = event.pass?.end_location ?? event.shot?.end_location;
+
+    if (wonAerial(event)) {
+      rows.push({
+        ...base,
+        opta_event_id: `${event.id}-aerial`,
+        x: toOptaX(event.location),
+        y: toOptaY(event.location),
+        pass_end_x: null,
+        pass_end_y: null,
+        event_type_id: OPTA_AERIAL,
+        event_type_desc: 'Aerial Won',
+      });
+    }
+
+    rows.push({
+      ...base,
+      opta_event_id: event.id,
+      x: toOptaX(event.location),
+      y: toOptaY(event.location),
+      pass_end_x: toOptaX(endLocation),
+      pass_end_y: toOptaY(endLocation),
+      event_type_id: toOptaEventType(event),
+      event_type_desc: event.duel?.type?.name ?? event.type.name,
+    });
+
+    if (event.out) {
+      const outLocation = endLocation ?? event.location;
+      rows.push({
+        ...base,
+        opta_event_id: `${event.id}-out`,
+        x: toOptaX(outLocation),
+        y: toOptaY(outLocation),
+        pass_end_x: null,
+        pass_end_y: null,
+        event_type_id: OPTA_OUT,
+        event_type_desc: 'Out',
+      });
+    }
+  }
+
+  return rowsToColumnar(rows, [...EVENT_FIELDS]);
+}
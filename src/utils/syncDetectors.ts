@@ -0,0 +1,499 @@
+// Automatic sync suggestions computed from tracking data
+// Each detector encodes one of the written rules from SyncInstructions
+
+import { isNullAt } from '../types';
+import type { ColumnarData, EventRow, FrameIndex, PitchDimensions, SyncDetector } from '../types';
+import { getEventCategory } from './eventCategories';
+import { convertPoint, DEFAULT_PITCH } from './coordinates';
+import { getPeriodTimes, findFrameAtOrAfter, getFrameRowIndices } from './frameIndex';
+
+// A per-frame series the detector based its decision on (e.g. ball-player distance)
+export interface DetectorCurve {
+  label: string;
+  unit: string;
+  points: { frameIdx: number; time: number; value: number }[];
+}
+
+export interface SyncSuggestion {
+  frameIdx: number;     // Frame index within the event's period
+  time: number;         // matched_time of the proposed frame
+  confidence: number;   // 0-1
+  detector: SyncDetector;
+  curve?: DetectorCurve;
+}
+
+export interface DetectorOptions {
+  windowMs: number;            // Search window either side of the event's matched_time
+  proximityScaleMs: number;    // How quickly confidence drops with distance from matched_time
+  peakAccelThreshold: number;  // Minimum ball acceleration (m/s²) to count as a kick
+  onsetAccelThreshold: number; // Acceleration (m/s²) below which the ball is not yet accelerating
+  contactDistance: number;     // Ball-player distance (m) at which the pitch circles overlap
+  fitSamples: number;          // Ball samples used to fit the trajectory towards the line
+  maxExtrapolationMs: number;  // How far past the last tracked frame a crossing may be extrapolated
+  pitch: PitchDimensions;      // Match pitch for converting tracking positions to meters
+}
+
+export const DEFAULT_DETECTOR_OPTIONS: DetectorOptions = {
+  windowMs: 3000,
+  proximityScaleMs: 2000,
+  peakAccelThreshold: 30,
+  onsetAccelThreshold: 5,
+  contactDistance: 2.0, // Player radius + ball radius as drawn in PitchSVG
+  fitSamples: 5,
+  maxExtrapolationMs: 1000,
+  pitch: DEFAULT_PITCH,
+};
+
+// One object position (in meters from the center spot) at one frame
+export interface TrackSample {
+  frameIdx: number;
+  time: number;
+  x: number;
+  y: number;
+}
+
+export type BallSample = TrackSample;
+
+// Frame window around an event within its period
+interface EventWindow {
+  times: number[];
+  baseIdx: number;
+  startIdx: number;
+  endIdx: number;
+}
+
+function getEventWindow(index: FrameIndex, event: EventRow, windowMs: number): EventWindow | null {
+  const times = getPeriodTimes(index, event.period_id);
+  if (times.length === 0) return null;
+
+  let baseIdx = findFrameAtOrAfter(times, event.matched_time);
+  if (baseIdx === -1) baseIdx = times.length - 1;
+
+  let startIdx = findFrameAtOrAfter(times, event.matched_time - windowMs);
+  if (startIdx === -1) startIdx = times.length - 1;
+  let endIdx = findFrameAtOrAfter(times, event.matched_time + windowMs);
+  if (endIdx === -1) endIdx = times.length - 1;
+
+  return { times, baseIdx, startIdx, endIdx };
+}
+
+// Get positions of one tracked object for frames startIdx..endIdx (frames where it's missing are left out)
+// Tracking is stored in Opta units - positions are converted to meters on the match pitch
+function getObjectTrack(
+  tracking: ColumnarData,
+  index: FrameIndex,
+  periodId: number,
+  startIdx: number,
+  endIdx: number,
+  pitch: PitchDimensions,
+  isObjectRow: (row: number) => boolean
+): TrackSample[] {
+  const times = getPeriodTimes(index, periodId);
+  const posXCol = tracking.columns['pos_x'] as ArrayLike<number>;
+  const posYCol = tracking.columns['pos_y'] as ArrayLike<number>;
+  if (!posXCol || !posYCol) return [];
+
+  const samples: TrackSample[] = [];
+  for (let frameIdx = startIdx; frameIdx <= endIdx; frameIdx++) {
+    for (const row of getFrameRowIndices(index, periodId, frameIdx)) {
+      if (!isObjectRow(row) || isNullAt(tracking, 'pos_x', row) || isNullAt(tracking, 'pos_y', row)) {
+        continue;
+      }
+      const { x, y } = convertPoint({ x: posXCol[row], y: posYCol[row] }, 'opta', 'metric-centered', pitch);
+      samples.push({ frameIdx, time: times[frameIdx], x, y });
+      break;
+    }
+  }
+  return samples;
+}
+
+// Get ball positions for frames startIdx..endIdx
+export function getBallTrack(
+  tracking: ColumnarData,
+  index: FrameIndex,
+  periodId: number,
+  startIdx: number,
+  endIdx: number,
+  pitch: PitchDimensions = DEFAULT_PITCH
+): BallSample[] {
+  const isBallCol = tracking.columns['is_ball'] as ArrayLike<number>;
+  if (!isBallCol) return [];
+  return getObjectTrack(tracking, index, periodId, startIdx, endIdx, pitch, row => isBallCol[row] === 1);
+}
+
+// Get positions of one player (matched by team and jersey) for frames startIdx..endIdx
+export function getPlayerTrack(
+  tracking: ColumnarData,
+  index: FrameIndex,
+  periodId: number,
+  teamId: number,
+  jerseyNo: number,
+  startIdx: number,
+  endIdx: number,
+  pitch: PitchDimensions = DEFAULT_PITCH
+): TrackSample[] {
+  const teamCol = tracking.columns['team_opta_id'] as ArrayLike<number>;
+  const jerseyCol = tracking.columns['jersey_no'] as ArrayLike<number>;
+  if (!teamCol || !jerseyCol) return [];
+  return getObjectTrack(tracking, index, periodId, startIdx, endIdx, pitch, row =>
+    teamCol[row] === teamId && jerseyCol[row] === jerseyNo &&
+    !isNullAt(tracking, 'team_opta_id', row) && !isNullAt(tracking, 'jersey_no', row)
+  );
+}
+
+// Centered moving average
+function movingAverage(values: number[], radius: number): number[] {
+  return values.map((_, i) => {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(values.length - 1, i + radius); j++) {
+      sum += values[j];
+      count++;
+    }
+    return sum / count;
+  });
+}
+
+// Central difference of a series against sample times (per second)
+function derivative(values: number[], times: number[]): number[] {
+  return values.map((_, i) => {
+    const prev = Math.max(0, i - 1);
+    const next = Math.min(values.length - 1, i + 1);
+    const dt = (times[next] - times[prev]) / 1000;
+    return dt > 0 ? (values[next] - values[prev]) / dt : 0;
+  });
+}
+
+// Smoothed ball speed (m/s) and acceleration (m/s²) per sample
+export function computeBallKinematics(samples: BallSample[]): { speed: number[]; accel: number[] } {
+  const times = samples.map(s => s.time);
+  const x = movingAverage(samples.map(s => s.x), 1);
+  const y = movingAverage(samples.map(s => s.y), 1);
+  const vx = derivative(x, times);
+  const vy = derivative(y, times);
+  const speed = vx.map((v, i) => Math.hypot(v, vy[i]));
+  const accel = derivative(speed, times);
+  return { speed, accel };
+}
+
+// Unsmoothed ball speed (m/s) from one sample to the next
+function forwardSpeed(samples: BallSample[], i: number): number {
+  const next = samples[Math.min(samples.length - 1, i + 1)];
+  const dt = (next.time - samples[i].time) / 1000;
+  return dt > 0 ? Math.hypot(next.x - samples[i].x, next.y - samples[i].y) / dt : 0;
+}
+
+function proximityWeight(time: number, eventTime: number, scaleMs: number): number {
+  return Math.exp(-Math.abs(time - eventTime) / scaleMs);
+}
+
+// Passes, clearances and shots: last frame before the ball starts accelerating away from the player
+export function detectBallAcceleration(
+  event: EventRow,
+  tracking: ColumnarData,
+  index: FrameIndex,
+  options: DetectorOptions = DEFAULT_DETECTOR_OPTIONS
+): SyncSuggestion | null {
+  const window = getEventWindow(index, event, options.windowMs);
+  if (!window) return null;
+
+  const samples = getBallTrack(tracking, index, event.period_id, window.startIdx, window.endIdx, options.pitch);
+  if (samples.length < 5) return null;
+
+  const { speed, accel } = computeBallKinematics(samples);
+
+  // Pick the acceleration peak that is strongest and closest to the event time
+  let bestPeak = -1;
+  let bestScore = 0;
+  for (let k = 1; k < accel.length - 1; k++) {
+    if (accel[k] < options.peakAccelThreshold || accel[k] < accel[k - 1] || accel[k] < accel[k + 1]) {
+      continue;
+    }
+    const score = accel[k] * proximityWeight(samples[k].time, event.matched_time, options.proximityScaleMs);
+    if (score > bestScore) {
+      bestScore = score;
+      bestPeak = k;
+    }
+  }
+  if (bestPeak === -1) return null;
+
+  // Walk back to where the smoothed acceleration starts rising
+  let onset = bestPeak;
+  while (onset > 0 && accel[onset - 1] > options.onsetAccelThreshold) {
+    onset--;
+  }
+  if (onset > 0) onset--;
+
+  // Smoothing spreads the kick over neighbouring frames, so refine on raw forward speed:
+  // the proposed frame is the last one where the ball hasn't moved off yet
+  const preSpeed = speed[onset];
+  const postSpeed = Math.max(...speed.slice(bestPeak, bestPeak + 5));
+  const moveThreshold = preSpeed + 0.2 * (postSpeed - preSpeed);
+  while (onset < bestPeak && forwardSpeed(samples, onset) < moveThreshold) {
+    onset++;
+  }
+
+  const sample = samples[onset];
+  const strength = Math.min(1, accel[bestPeak] / (2 * options.peakAccelThreshold));
+  const confidence = strength * proximityWeight(sample.time, event.matched_time, options.proximityScaleMs);
+
+  return {
+    frameIdx: sample.frameIdx,
+    time: sample.time,
+    confidence: Math.round(confidence * 100) / 100,
+    detector: 'ball-acceleration',
+  };
+}
+
+// Ball-player distance (m) per frame where both ball and player were tracked
+function getBallDistanceCurve(ball: TrackSample[], player: TrackSample[]): DetectorCurve['points'] {
+  const playerByFrame = new Map(player.map(p => [p.frameIdx, p]));
+  const points: DetectorCurve['points'] = [];
+  for (const b of ball) {
+    const p = playerByFrame.get(b.frameIdx);
+    if (p) {
+      points.push({ frameIdx: b.frameIdx, time: b.time, value: Math.hypot(b.x - p.x, b.y - p.y) });
+    }
+  }
+  return points;
+}
+
+function hasPlayer(event: EventRow): boolean {
+  return event.team_id !== null && event.team_id !== undefined &&
+    event.jersey_no !== null && event.jersey_no !== undefined && Number.isFinite(event.jersey_no);
+}
+
+// Interceptions, recoveries and aerial duels: based on ball-player distance
+// - Interceptions/recoveries: first frame where ball and player circles overlap,
+//   otherwise the frame where the ball stops moving towards the player (closest approach)
+// - Aerial duels: frame where the ball is as close as possible to both players
+export function detectPlayerProximity(
+  event: EventRow,
+  tracking: ColumnarData,
+  index: FrameIndex,
+  options: DetectorOptions = DEFAULT_DETECTOR_OPTIONS,
+  pairedEvent: EventRow | null = null
+): SyncSuggestion | null {
+  if (!hasPlayer(event)) return null;
+
+  const window = getEventWindow(index, event, options.windowMs);
+  if (!window) return null;
+
+  const { startIdx, endIdx } = window;
+  const ball = getBallTrack(tracking, index, event.period_id, startIdx, endIdx, options.pitch);
+  const player = getPlayerTrack(tracking, index, event.period_id, event.team_id, event.jersey_no, startIdx, endIdx, options.pitch);
+  let points = getBallDistanceCurve(ball, player);
+  let label = 'Ball–player distance';
+
+  const isAerial = getEventCategory(event.event_type_id) === 'aerial';
+
+  // For aerial duels, average the distance to both duelling players
+  if (isAerial && pairedEvent && hasPlayer(pairedEvent)) {
+    const opponent = getPlayerTrack(
+      tracking, index, event.period_id, pairedEvent.team_id, pairedEvent.jersey_no, startIdx, endIdx, options.pitch
+    );
+    const opponentByFrame = new Map(getBallDistanceCurve(ball, opponent).map(p => [p.frameIdx, p.value]));
+    points = points
+      .filter(p => opponentByFrame.has(p.frameIdx))
+      .map(p => ({ ...p, value: (p.value + opponentByFrame.get(p.frameIdx)!) / 2 }));
+    label = 'Ball distance to both players (avg)';
+  }
+
+  if (points.length === 0) return null;
+  const curve: DetectorCurve = { label, unit: 'm', points };
+
+  const weight = (time: number) => proximityWeight(time, event.matched_time, options.proximityScaleMs);
+
+  if (!isAerial) {
+    // Find contact spans and take the first frame of the span closest to the event
+    let bestStart = -1;
+    let bestScore = 0;
+    for (let k = 0; k < points.length; k++) {
+      const inContact = points[k].value <= options.contactDistance;
+      const spanStart = inContact && (k === 0 || points[k - 1].value > options.contactDistance);
+      if (spanStart && weight(points[k].time) > bestScore) {
+        bestScore = weight(points[k].time);
+        bestStart = k;
+      }
+    }
+    if (bestStart !== -1) {
+      const point = points[bestStart];
+      return {
+        frameIdx: point.frameIdx,
+        time: point.time,
+        confidence: Math.round(0.95 * bestScore * 100) / 100,
+        detector: 'player-proximity',
+        curve,
+      };
+    }
+  }
+
+  // Closest approach, penalising frames far from the event time
+  let best = 0;
+  let bestCost = Infinity;
+  for (let k = 0; k < points.length; k++) {
+    const cost = points[k].value / weight(points[k].time);
+    if (cost < bestCost) {
+      bestCost = cost;
+      best = k;
+    }
+  }
+
+  const point = points[best];
+  // Confidence drops as the closest approach gets further from contact
+  const closeness = Math.min(1, options.contactDistance / Math.max(point.value, 0.01));
+  const confidence = (isAerial ? 0.9 : 0.6) * closeness * weight(point.time);
+
+  return {
+    frameIdx: point.frameIdx,
+    time: point.time,
+    confidence: Math.round(confidence * 100) / 100,
+    detector: 'player-proximity',
+    curve,
+  };
+}
+
+type BoundaryLine = 'left' | 'right' | 'top' | 'bottom';
+
+// Signed distance (m) from the ball to a boundary line - negative once the ball is over it
+// Top is the Opta y=0 touchline, as drawn in PitchSVG
+function distanceToLine(sample: TrackSample, line: BoundaryLine, pitch: PitchDimensions): number {
+  switch (line) {
+    case 'left': return sample.x + pitch.length / 2;
+    case 'right': return pitch.length / 2 - sample.x;
+    case 'top': return sample.y + pitch.width / 2;
+    case 'bottom': return pitch.width / 2 - sample.y;
+  }
+}
+
+function nearestLine(sample: TrackSample, pitch: PitchDimensions): BoundaryLine {
+  const lines: BoundaryLine[] = ['left', 'right', 'top', 'bottom'];
+  return lines.reduce((best, line) =>
+    distanceToLine(sample, line, pitch) < distanceToLine(sample, best, pitch) ? line : best);
+}
+
+// Least-squares slope of values against times (per ms)
+function linearSlope(times: number[], values: number[]): number {
+  const n = times.length;
+  const meanT = times.reduce((a, b) => a + b, 0) / n;
+  const meanV = values.reduce((a, b) => a + b, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i++) {
+    num += (times[i] - meanT) * (values[i] - meanV);
+    den += (times[i] - meanT) ** 2;
+  }
+  return den > 0 ? num / den : 0;
+}
+
+// Out of bounds: frame at which the ball crossed (or would have crossed) the pitch boundary
+// Uses the observed crossing if the ball is tracked over the line, otherwise extrapolates
+// the trajectory up to maxExtrapolationMs past the last frame where the ball still moved towards the line
+export function detectOutOfBounds(
+  event: EventRow,
+  tracking: ColumnarData,
+  index: FrameIndex,
+  options: DetectorOptions = DEFAULT_DETECTOR_OPTIONS
+): SyncSuggestion | null {
+  const window = getEventWindow(index, event, options.windowMs);
+  if (!window) return null;
+
+  const samples = getBallTrack(tracking, index, event.period_id, window.startIdx, window.endIdx, options.pitch);
+  if (samples.length < options.fitSamples) return null;
+
+  const weight = (time: number) => proximityWeight(time, event.matched_time, options.proximityScaleMs);
+
+  // The line the ball goes out over: where it gets closest to the boundary near the event
+  let closest = 0;
+  let closestCost = Infinity;
+  for (let k = 0; k < samples.length; k++) {
+    const dist = distanceToLine(samples[k], nearestLine(samples[k], options.pitch), options.pitch);
+    const cost = (Math.max(dist, 0) + 1) / weight(samples[k].time);
+    if (cost < closestCost) {
+      closestCost = cost;
+      closest = k;
+    }
+  }
+  const line = nearestLine(samples[closest], options.pitch);
+  const distances = samples.map(sample => distanceToLine(sample, line, options.pitch));
+  const curve: DetectorCurve = {
+    label: 'Ball distance to line',
+    unit: 'm',
+    points: samples.map((sample, k) => ({ frameIdx: sample.frameIdx, time: sample.time, value: Math.max(distances[k], 0) })),
+  };
+
+  // Observed crossing: first sample over the line, interpolated between it and the one before
+  let crossing = closest;
+  while (crossing > 0 && distances[crossing - 1] <= 0) crossing--;
+  if (distances[crossing] <= 0 && crossing > 0) {
+    const before = samples[crossing - 1];
+    const after = samples[crossing];
+    const t = distances[crossing - 1] / (distances[crossing - 1] - distances[crossing]);
+    const crossTime = before.time + t * (after.time - before.time);
+    const sample = crossTime - before.time <= after.time - crossTime ? before : after;
+    return {
+      frameIdx: sample.frameIdx,
+      time: sample.time,
+      confidence: Math.round(0.9 * weight(sample.time) * 100) / 100,
+      detector: 'out-of-bounds',
+      curve,
+    };
+  }
+
+  // Last sample where the ball still moved towards the line
+  let lastMoving = closest;
+  while (lastMoving > 0 && distances[lastMoving] >= distances[lastMoving - 1]) lastMoving--;
+  if (lastMoving < options.fitSamples - 1) return null;
+
+  // Fit the approach to the line and extrapolate when the distance would reach zero
+  const fitStart = lastMoving - options.fitSamples + 1;
+  const fitTimes = samples.slice(fitStart, lastMoving + 1).map(sample => sample.time);
+  const fitDistances = distances.slice(fitStart, lastMoving + 1);
+  const slope = linearSlope(fitTimes, fitDistances);
+  if (slope >= 0) return null;
+
+  const crossTime = samples[lastMoving].time - distances[lastMoving] / slope;
+  if (crossTime - samples[lastMoving].time > options.maxExtrapolationMs) return null;
+
+  // Frame nearest to the extrapolated crossing - the ball may no longer be tracked there
+  const times = window.times;
+  let frameIdx = findFrameAtOrAfter(times, crossTime);
+  if (frameIdx === -1) frameIdx = times.length - 1;
+  if (frameIdx > 0 && crossTime - times[frameIdx - 1] < times[frameIdx] - crossTime) frameIdx--;
+
+  // Confidence drops the further the ball stopped from the line
+  const closeness = Math.max(0, 1 - distances[lastMoving] / 10);
+  const confidence = 0.7 * closeness * weight(times[frameIdx]);
+
+  return {
+    frameIdx,
+    time: times[frameIdx],
+    confidence: Math.round(confidence * 100) / 100,
+    detector: 'out-of-bounds',
+    curve,
+  };
+}
+
+// Run the detector that matches the event's category
+export function suggestSyncFrame(
+  event: EventRow,
+  tracking: ColumnarData,
+  index: FrameIndex,
+  options: DetectorOptions = DEFAULT_DETECTOR_OPTIONS,
+  pairedEvent: EventRow | null = null
+): SyncSuggestion | null {
+  switch (getEventCategory(event.event_type_id)) {
+    case 'pass':
+      return detectBallAcceleration(event, tracking, index, options);
+    case 'aerial':
+    case 'interception':
+      return detectPlayerProximity(event, tracking, index, options, pairedEvent);
+    case 'outofbounds': {
+      // Anchor on the earlier event of the pair so both events get the same proposal
+      const anchor = pairedEvent && pairedEvent.matched_time < event.matched_time ? pairedEvent : event;
+      return detectOutOfBounds(anchor, tracking, index, options);
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,103 @@
+// Sync result records and the results JSON format
+import type { SyncMethod, SyncRecord, SyncedResults, SkipReason, SkipRecord, SkippedEvents } from '../types';
+
+// Create a provenance record for a newly synced event
+export function createSyncRecord(
+  time: number,
+  method: SyncMethod,
+  annotator: string,
+  frameOffset: number | null,
+  extra: Pick<SyncRecord, 'note' | 'detector' | 'confidence'> = {}
+): SyncRecord {
+  const record: SyncRecord = {
+    time,
+    method,
+    timestamp: new Date().toISOString(),
+    annotator,
+    frameOffset,
+  };
+  if (extra.note) record.note = extra.note;
+  if (extra.detector) record.detector = extra.detector;
+  if (extra.confidence !== undefined) record.confidence = extra.confidence;
+  return record;
+}
+
+// Create a record for an event marked as unsyncable
+export function createSkipRecord(reason: SkipReason, annotator: string, note?: string): SkipRecord {
+  const record: SkipRecord = {
+    status: 'skipped',
+    reason,
+    timestamp: new Date().toISOString(),
+    annotator,
+  };
+  if (note) record.note = note;
+  return record;
+}
+
+// Display labels for skip reasons
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  'no-tracking': 'No tracking data',
+  'ball-not-visible': 'Ball not visible',
+  'tracking-error': 'Tracking error',
+  'duplicate': 'Duplicate event',
+};
+
+const SKIP_REASONS = Object.keys(SKIP_REASON_LABELS) as SkipReason[];
+
+// Record for a bare time from the old `{ [eventId]: number }` format
+export function legacySyncRecord(time: number): SyncRecord {
+  return createSyncRecord(time, 'import', '', null);
+}
+
+const SYNC_METHODS: SyncMethod[] = ['manual', 'previous', 'heuristic', 'import'];
+
+// Results file contents - synced records and skipped events share one map keyed by event ID
+export function serializeSyncResults(results: SyncedResults, skipped: SkippedEvents): Record<string, SyncRecord | SkipRecord> {
+  return { ...results, ...skipped };
+}
+
+// Parse an uploaded results file - accepts bare times, provenance records and skipped events
+export function parseSyncResults(parsed: unknown): { results: SyncedResults; skipped: SkippedEvents } {
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Invalid format — expected a JSON object');
+  }
+
+  const results: SyncedResults = {};
+  const skipped: SkippedEvents = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    if (typeof value === 'number') {
+      results[key] = legacySyncRecord(value);
+      continue;
+    }
+
+    if (typeof value === 'object' && value !== null && value.status === 'skipped') {
+      const skip = value as Partial<SkipRecord>;
+      if (!skip.reason || !SKIP_REASONS.includes(skip.reason)) {
+        throw new Error(`Invalid skip reason for event "${key}"`);
+      }
+      skipped[key] = {
+        ...skip,
+        status: 'skipped',
+        reason: skip.reason,
+        timestamp: typeof skip.timestamp === 'string' ? skip.timestamp : new Date().toISOString(),
+        annotator: typeof skip.annotator === 'string' ? skip.annotator : '',
+      };
+      continue;
+    }
+
+    const record = value as Partial<SyncRecord> | null;
+    if (typeof record !== 'object' || record === null || typeof record.time !== 'number') {
+      throw new Error(`Invalid value for event "${key}" — expected a number or a record with a numeric time`);
+    }
+
+    results[key] = {
+      ...record,
+      time: record.time,
+      method: record.method && SYNC_METHODS.includes(record.method) ? record.method : 'import',
+      timestamp: typeof record.timestamp === 'string' ? record.timestamp : new Date().toISOString(),
+      annotator: typeof record.annotator === 'string' ? record.annotator : '',
+      frameOffset: typeof record.frameOffset === 'number' ? record.frameOffset : null,
+    };
+  }
+  return { results, skipped };
+}
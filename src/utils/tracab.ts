@@ -0,0 +1,87 @@
+// TRACAB tracking importer - .dat frame files plus XML metadata
+import { HOME_TEAM_ID, AWAY_TEAM_ID } from '../types';
+import type { ColumnsBuilder } from './columns';
+
+export interface TracabPeriod {
+  id: number;
+  startFrame: number;
+  endFrame: number;
+}
+
+export interface TracabMetadata {
+  frameRate: number;
+  pitchLength: number; // meters
+  pitchWidth: number;
+  periods: TracabPeriod[];
+}
+
+// Team type field of a .dat target - referees (3) and unknown objects (-1, 4) are dropped
+const TEAM_BY_TARGET_TYPE: Record<string, number> = {
+  '1': HOME_TEAM_ID,
+  '0': AWAY_TEAM_ID,
+};
+
+// Parse the XML metadata file (main thread only - DOMParser isn't available in workers)
+export function parseTracabMetadata(xml: string): TracabMetadata {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Invalid TRACAB metadata XML');
+  }
+
+  const match = doc.querySelector('match');
+  if (!match) {
+    throw new Error('TRACAB metadata has no <match> element');
+  }
+
+  const readNumber = (el: Element, attr: string): number => {
+    const value = Number(el.getAttribute(attr));
+    if (!Number.isFinite(value)) {
+      throw new Error(`TRACAB metadata is missing ${attr}`);
+    }
+    return value;
+  };
+
+  const periods = Array.from(doc.querySelectorAll('period'))
+    .map(el => ({
+      id: readNumber(el, 'iId'),
+      startFrame: readNumber(el, 'iStartFrame'),
+      endFrame: readNumber(el, 'iEndFrame'),
+    }))
+    .filter(p => p.endFrame > p.startFrame); // Unplayed periods are listed with 0/0
+
+  if (periods.length === 0) {
+    throw new Error('TRACAB metadata has no played periods');
+  }
+
+  return {
+    frameRate: readNumber(match, 'iFrameRateFps'),
+    pitchLength: readNumber(match, 'fPitchXSizeMeters'),
+    pitchWidth: readNumber(match, 'fPitchYSizeMeters'),
+    periods,
+  };
+}
+
+// Append one .dat line ("frame:target;target;...;:ball:") to the tracking columns
+// Targets are "type,id,jersey,x,y,speed" and the ball "x,y,z,speed,owner,status", positions in centimeters
+export function appendTracabFrame(line: string, meta: TracabMetadata, builder: ColumnsBuilder): void {
+  const [frameStr, targetsStr, ballStr] = line.split(':');
+  const frameId = Number(frameStr);
+  const period = meta.periods.find(p => frameId >= p.startFrame && frameId <= p.endFrame);
+  if (!period || targetsStr === undefined) return;
+
+  // Time since the start of the period in milliseconds
+  const time = Math.round(((frameId - period.startFrame) * 1000) / meta.frameRate);
+
+  for (const target of targetsStr.split(';')) {
+    if (!target) continue;
+    const [targetType, , jersey, x, y] = target.split(',');
+    const teamId = TEAM_BY_TARGET_TYPE[targetType];
+    if (teamId === undefined) continue;
+    builder.push([period.id, time, teamId, Number(jersey), Number(x) / 100, Number(y) / 100, 0]);
+  }
+
+  if (ballStr) {
+    const [x, y] = ballStr.split(',');
+    builder.push([period.id, time, -1, null, Number(x) / 100, Number(y) / 100, 1]);
+  }
+}
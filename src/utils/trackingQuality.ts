@@ -0,0 +1,151 @@
+// Tracking data quality scan - spans of frames with dropped frames, a missing ball, jersey problems,
+// implausible player speeds or players far outside the pitch
+// Runs in the parse worker, while positions are still in meters from the center spot
+import { isNullAt } from '../types';
+import type { ColumnarData, FrameIndex, PitchDimensions, QualityIssueKind, QualityReport, QualitySpan } from '../types';
+import { DEFAULT_PITCH } from './coordinates';
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssueKind, string> = {
+  'frame-gap': 'Dropped frames',
+  'ball-missing': 'Ball missing',
+  'duplicate-jersey': 'Duplicate jersey',
+  'missing-jersey': 'Missing jersey',
+  'implausible-speed': 'Implausible speed',
+  'outside-pitch': 'Player outside pitch',
+};
+
+// Faster than any sprint (~44 km/h) - a player "teleporting" between frames
+const MAX_PLAYER_SPEED = 12; // m/s
+
+// Players this far past the lines are off the pitch even for throw-ins and substitutions
+const OUTSIDE_MARGIN = 5; // m
+
+// Flagged frames closer than this are merged into one span
+const MERGE_GAP_MS = 1000;
+
+// Collects flagged frames per issue kind into spans
+function createSpanCollector(period: number) {
+  const open = new Map<QualityIssueKind, QualitySpan>();
+  const closed: QualitySpan[] = [];
+
+  return {
+    flag(kind: QualityIssueKind, time: number, detail: string) {
+      const span = open.get(kind);
+      if (span && time - span.endTime <= MERGE_GAP_MS) {
+        span.endTime = time;
+        span.frames++;
+        return;
+      }
+      if (span) closed.push(span);
+      open.set(kind, { kind, period, startTime: time, endTime: time, frames: 1, detail });
+    },
+    finish(): QualitySpan[] {
+      return [...closed, ...open.values()];
+    },
+  };
+}
+
+// Scan every frame of the tracking data (positions in meters from the center spot)
+export function scanTrackingQuality(
+  tracking: ColumnarData,
+  index: FrameIndex,
+  pitch: PitchDimensions = DEFAULT_PITCH
+): QualityReport {
+  const teamCol = tracking.columns['team_opta_id'] as ArrayLike<number>;
+  const jerseyCol = tracking.columns['jersey_no'] as ArrayLike<number>;
+  const posXCol = tracking.columns['pos_x'] as ArrayLike<number>;
+  const posYCol = tracking.columns['pos_y'] as ArrayLike<number>;
+  const ballCol = tracking.columns['is_ball'] as ArrayLike<number>;
+  const report: QualityReport = { spans: [], periods: [] };
+  if (!teamCol || !jerseyCol || !posXCol || !posYCol || !ballCol) return report;
+
+  for (const [period, frames] of index.periods) {
+    const { times } = frames;
+    if (times.length === 0) continue;
+    report.periods.push({ period, startTime: times[0], endTime: times[times.length - 1] });
+
+    const spans = createSpanCollector(period);
+    const { gaps, frameIntervalMs } = frames.frameRate;
+    const gapEnds = new Set(gaps.map(gap => gap.endTime));
+    for (const gap of gaps) {
+      report.spans.push({
+        kind: 'frame-gap',
+        period,
+        startTime: gap.startTime,
+        endTime: gap.endTime,
+        frames: Math.round((gap.endTime - gap.startTime) / frameIntervalMs) - 1,
+        detail: `${((gap.endTime - gap.startTime) / 1000).toFixed(2)}s without frames`,
+      });
+    }
+
+    // Last position in meters per player (team * 1000 + jersey)
+    let previous = new Map<number, { x: number; y: number }>();
+
+    for (let f = 0; f < times.length; f++) {
+      const time = times[f];
+      // Across dropped frames the speed is unknown
+      const dt = f > 0 && !gapEnds.has(time) ? (time - times[f - 1]) / 1000 : 0;
+      const current = new Map<number, { x: number; y: number }>();
+      let hasBall = false;
+      let missingJersey: string | null = null;
+      let duplicateJersey: string | null = null;
+      let tooFast: string | null = null;
+      let outside: string | null = null;
+
+      for (const row of index.rowOrder.subarray(frames.frameStarts[f], frames.frameEnds[f])) {
+        const hasPosition = !isNullAt(tracking, 'pos_x', row) && !isNullAt(tracking, 'pos_y', row) &&
+          Number.isFinite(posXCol[row]) && Number.isFinite(posYCol[row]);
+        if (ballCol[row] === 1) {
+          if (hasPosition) hasBall = true;
+          continue;
+        }
+
+        const teamId = teamCol[row];
+        if (isNullAt(tracking, 'jersey_no', row)) {
+          missingJersey ??= `Team ${teamId}`;
+          continue;
+        }
+
+        const jersey = jerseyCol[row];
+        const key = teamId * 1000 + jersey;
+        const label = `#${jersey} (team ${teamId})`;
+        if (current.has(key)) {
+          duplicateJersey ??= label;
+          continue;
+        }
+        if (!hasPosition) continue;
+
+        const meters = { x: posXCol[row], y: posYCol[row] };
+        current.set(key, meters);
+
+        if (Math.abs(meters.x) > pitch.length / 2 + OUTSIDE_MARGIN || Math.abs(meters.y) > pitch.width / 2 + OUTSIDE_MARGIN) {
+          outside ??= label;
+        }
+
+        const last = previous.get(key);
+        if (last && dt > 0 && Math.hypot(meters.x - last.x, meters.y - last.y) / dt > MAX_PLAYER_SPEED) {
+          tooFast ??= label;
+        }
+      }
+
+      if (!hasBall) spans.flag('ball-missing', time, '');
+      if (missingJersey) spans.flag('missing-jersey', time, missingJersey);
+      if (duplicateJersey) spans.flag('duplicate-jersey', time, duplicateJersey);
+      if (tooFast) spans.flag('implausible-speed', time, tooFast);
+      if (outside) spans.flag('outside-pitch', time, outside);
+
+      previous = current;
+    }
+
+    report.spans.push(...spans.finish());
+  }
+
+  report.periods.sort((a, b) => a.period - b.period);
+  report.spans.sort((a, b) => (a.period - b.period) || (a.startTime - b.startTime));
+  return report;
+}
+
+// Spans of a period overlapping a time window
+export function getQualitySpansAt(report: QualityReport, period: number, startTime: number, endTime: number): QualitySpan[] {
+  return report.spans.filter(span => span.period === period && span.startTime <= endTime && span.endTime >= startTime);
+}
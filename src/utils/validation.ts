@@ -0,0 +1,254 @@
+// Pre-sync data validation - checks the prepared tracking and events before a session starts
+import { isNullAt, HOME_TEAM_ID, AWAY_TEAM_ID } from '../types';
+import type { ColumnarData, Lineup } from '../types';
+import { TRACKING_FIELDS, EVENT_FIELDS } from './columnMapping';
+import type { DatasetKind, TargetField } from './columnMapping';
+
+export type IssueSeverity = 'blocking' | 'warning';
+
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  message: string;
+  detail?: string;
+  sameGame?: boolean; // The files may come from different games
+}
+
+export interface ColumnNullRate {
+  dataset: DatasetKind;
+  column: string;
+  nullCount: number;
+  nullRate: number; // 0-1
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  nullRates: ColumnNullRate[];
+}
+
+// Max IDs/periods listed in an issue detail
+const MAX_LISTED = 5;
+
+function listSome(values: (string | number)[]): string {
+  const shown = values.slice(0, MAX_LISTED).join(', ');
+  return values.length > MAX_LISTED ? `${shown} and ${values.length - MAX_LISTED} more` : shown;
+}
+
+function countNulls(data: ColumnarData, column: string): number {
+  let count = 0;
+  for (let i = 0; i < data.numRows; i++) {
+    if (isNullAt(data, column, i)) count++;
+  }
+  return count;
+}
+
+// Null rates for every column, plus blocking issues for required fields that are missing or entirely null
+function checkColumns(data: ColumnarData, dataset: DatasetKind, fields: TargetField[], report: ValidationReport) {
+  for (const column of data.fieldNames) {
+    const nullCount = countNulls(data, column);
+    report.nullRates.push({ dataset, column, nullCount, nullRate: data.numRows > 0 ? nullCount / data.numRows : 0 });
+  }
+
+  for (const field of fields) {
+    if (!field.required) continue;
+    const rate = report.nullRates.find(r => r.dataset === dataset && r.column === field.name);
+    if (!rate) {
+      report.issues.push({ severity: 'blocking', message: `${dataset} data has no ${field.name} column` });
+    } else if (data.numRows > 0 && rate.nullCount === data.numRows) {
+      report.issues.push({ severity: 'blocking', message: `${dataset} column ${field.name} has no values` });
+    }
+  }
+}
+
+// Tracking time range per period
+function getTrackingCoverage(tracking: ColumnarData): Map<number, { start: number; end: number }> {
+  const coverage = new Map<number, { start: number; end: number }>();
+  const periodCol = tracking.columns['period_id'] as ArrayLike<number>;
+  const timeCol = tracking.columns['matched_time'] as ArrayLike<number>;
+  if (!periodCol || !timeCol) return coverage;
+
+  for (let i = 0; i < tracking.numRows; i++) {
+    if (isNullAt(tracking, 'period_id', i) || isNullAt(tracking, 'matched_time', i)) continue;
+    const range = coverage.get(periodCol[i]);
+    if (!range) {
+      coverage.set(periodCol[i], { start: timeCol[i], end: timeCol[i] });
+    } else {
+      if (timeCol[i] < range.start) range.start = timeCol[i];
+      if (timeCol[i] > range.end) range.end = timeCol[i];
+    }
+  }
+  return coverage;
+}
+
+// Where the data came from, for checking that the files belong to the same game
+export interface GameSources {
+  gameIds: { fileName: string; gameId: string }[]; // Game IDs found in the uploaded file names
+  trackingTeamIds: number[]; // Before team mapping
+  eventTeamIds: number[];
+}
+
+// Share of events inside the tracking coverage below which tracking and events likely come from different games
+const MIN_EVENTS_IN_COVERAGE = 0.5;
+
+// Warnings when the files look like they come from different games - differing IDs or barely overlapping times
+function checkSameGame(sources: GameSources, lineup: Lineup | null, eventsInCoverage: number, eventCount: number, report: ValidationReport) {
+  const gameIds = new Set(sources.gameIds.map(g => g.gameId));
+  if (gameIds.size > 1) {
+    report.issues.push({
+      severity: 'warning',
+      sameGame: true,
+      message: 'File names contain different game IDs',
+      detail: sources.gameIds.map(g => `${g.fileName}: ${g.gameId}`).join(', '),
+    });
+  }
+
+  // Home/away placeholders say nothing about the game
+  const realTrackingTeams = sources.trackingTeamIds.filter(id => id !== HOME_TEAM_ID && id !== AWAY_TEAM_ID);
+  if (realTrackingTeams.length > 0 && !realTrackingTeams.some(id => sources.eventTeamIds.includes(id))) {
+    report.issues.push({
+      severity: 'warning',
+      sameGame: true,
+      message: 'Tracking and events have no team ID in common',
+      detail: `Tracking teams ${listSome(realTrackingTeams)}, events teams ${listSome(sources.eventTeamIds)}`,
+    });
+  }
+
+  const lineupTeams = lineup?.teams.map(team => team.teamId) ?? [];
+  if (lineupTeams.length > 0 && !lineupTeams.some(id => sources.eventTeamIds.includes(id))) {
+    report.issues.push({
+      severity: 'warning',
+      sameGame: true,
+      message: 'Lineup and events have no team ID in common',
+      detail: `Lineup teams ${listSome(lineupTeams)}, events teams ${listSome(sources.eventTeamIds)}`,
+    });
+  }
+
+  if (eventCount > 0 && eventsInCoverage / eventCount < MIN_EVENTS_IN_COVERAGE) {
+    report.issues.push({
+      severity: 'warning',
+      sameGame: true,
+      message: `Only ${eventsInCoverage} of ${eventCount} events fall within the tracking data's time range`,
+      detail: 'Tracking and events barely overlap in time',
+    });
+  }
+}
+
+// Validate prepared data (tracking teams already mapped, jersey numbers already mapped onto events)
+export function validateSyncData(
+  tracking: ColumnarData,
+  events: ColumnarData,
+  trackingTeamIds: number[],
+  lineup: Lineup | null,
+  sources?: GameSources
+): ValidationReport {
+  const report: ValidationReport = { issues: [], nullRates: [] };
+
+  checkColumns(tracking, 'tracking', TRACKING_FIELDS, report);
+  checkColumns(events, 'events', EVENT_FIELDS, report);
+
+  if (events.numRows === 0) {
+    report.issues.push({ severity: 'blocking', message: 'No syncable events', detail: 'Nothing is left after filtering events by type, period and coordinates' });
+  }
+
+  if (trackingTeamIds.length < 2) {
+    report.issues.push({ severity: 'blocking', message: 'Could not detect two teams from tracking data' });
+  }
+
+  // Duplicate event IDs - sync results are keyed by event ID
+  const idCol = events.columns['opta_event_id'];
+  if (idCol) {
+    const seen = new Set<string>();
+    const duplicates = new Set<string>();
+    for (let i = 0; i < events.numRows; i++) {
+      const id = String(idCol[i]);
+      if (seen.has(id)) duplicates.add(id);
+      seen.add(id);
+    }
+    if (duplicates.size > 0) {
+      report.issues.push({
+        severity: 'blocking',
+        message: `${duplicates.size} duplicate event IDs`,
+        detail: listSome([...duplicates]),
+      });
+    }
+  }
+
+  // Jersey numbers come from tracking player_opta_id (or the lineup) -> events player_id
+  if (!tracking.fieldNames.includes('player_opta_id') && !lineup) {
+    report.issues.push({
+      severity: 'warning',
+      message: 'Tracking data has no player_opta_id column',
+      detail: 'Jersey numbers can\'t be matched to events by player - upload a lineup file, or the events\' own jersey_no is used',
+    });
+  }
+  const jerseyRate = report.nullRates.find(r => r.dataset === 'events' && r.column === 'jersey_no');
+  const unmappedJerseys = jerseyRate ? jerseyRate.nullCount : events.numRows;
+  if (unmappedJerseys > 0) {
+    report.issues.push({
+      severity: 'warning',
+      message: `${unmappedJerseys} of ${events.numRows} events have no jersey number`,
+      detail: 'The acting player won\'t be highlighted for these events',
+    });
+  }
+
+  // Periods and times against tracking coverage
+  const coverage = getTrackingCoverage(tracking);
+  const periodCol = events.columns['period_id'] as ArrayLike<number>;
+  const timeCol = events.columns['matched_time'] as ArrayLike<number>;
+  let eventsInCoverage = events.numRows;
+  if (periodCol && timeCol) {
+    const missingPeriods = new Set<number>();
+    const eventPeriods = new Set<number>();
+    let outside = 0;
+    let inMissingPeriods = 0;
+
+    for (let i = 0; i < events.numRows; i++) {
+      const period = periodCol[i];
+      eventPeriods.add(period);
+      const range = coverage.get(period);
+      if (!range) {
+        missingPeriods.add(period);
+        inMissingPeriods++;
+      } else if (isNullAt(events, 'matched_time', i) || timeCol[i] < range.start || timeCol[i] > range.end) {
+        outside++;
+      }
+    }
+
+    const byNumber = (a: number, b: number) => a - b;
+    const unsyncable = outside + inMissingPeriods;
+    eventsInCoverage = events.numRows - unsyncable;
+    if (missingPeriods.size > 0) {
+      report.issues.push({
+        severity: unsyncable === events.numRows && events.numRows > 0 ? 'blocking' : 'warning',
+        message: `Events in periods without tracking data: ${listSome([...missingPeriods].sort(byNumber))}`,
+        detail: `Tracking covers periods ${listSome([...coverage.keys()].sort(byNumber)) || 'none'}`,
+      });
+    }
+    const trackingOnly = [...coverage.keys()].filter(period => !eventPeriods.has(period));
+    if (trackingOnly.length > 0 && events.numRows > 0) {
+      report.issues.push({
+        severity: 'warning',
+        message: `Tracking periods without events: ${listSome(trackingOnly.sort(byNumber))}`,
+      });
+    }
+    if (outside > 0) {
+      report.issues.push({
+        severity: unsyncable === events.numRows ? 'blocking' : 'warning',
+        message: `${outside} events fall outside the tracking time range of their period`,
+        detail: [...coverage.entries()]
+          .sort(([a], [b]) => byNumber(a, b))
+          .map(([period, range]) => `P${period}: ${(range.start / 1000).toFixed(1)}s - ${(range.end / 1000).toFixed(1)}s`)
+          .join(', '),
+      });
+    }
+  }
+
+  if (sources) {
+    checkSameGame(sources, lineup, eventsInCoverage, events.numRows, report);
+  }
+
+  return report;
+}
+
+export function hasBlockingIssues(report: ValidationReport): boolean {
+  return report.issues.some(issue => issue.severity === 'blocking');
+}
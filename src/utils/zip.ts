@@ -0,0 +1,91 @@
+// Minimal .zip reader - stored and deflated entries, decompressed with the browser's DecompressionStream
+
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const CENTRAL_DIR_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// End of central directory record is 22 bytes plus a comment of up to 64KB
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+// Directories, macOS resource forks and hidden files
+function isIgnoredEntry(path: string): boolean {
+  const name = path.split('/').pop() ?? '';
+  return path.endsWith('/') || path.startsWith('__MACOSX/') || name.startsWith('.');
+}
+
+function findEndOfCentralDir(view: DataView): number {
+  const stop = Math.max(0, view.byteLength - MAX_EOCD_SEARCH);
+  for (let offset = view.byteLength - 22; offset >= stop; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIR) return offset;
+  }
+  throw new Error('Not a zip file');
+}
+
+async function inflate(data: Uint8Array): Promise<Blob> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).blob();
+}
+
+export interface ZipEntry {
+  path: string; // Full path inside the archive
+  file: File;   // Named after the last path segment
+}
+
+// Extract every file of a zip archive
+export async function readZipFile(zip: Blob): Promise<ZipEntry[]> {
+  const buffer = await zip.arrayBuffer();
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  const eocd = findEndOfCentralDir(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIR_HEADER) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (isIgnoredEntry(path)) continue;
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip entry ${path}`);
+    }
+
+    // The local header's name/extra lengths can differ from the central directory's
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Blob;
+    if (method === METHOD_STORED) {
+      content = new Blob([data as BlobPart]);
+    } else if (method === METHOD_DEFLATE) {
+      content = await inflate(data);
+    } else {
+      throw new Error(`Unsupported compression method ${method} for ${path}`);
+    }
+
+    entries.push({ path, file: new File([content], path.split('/').pop()!) });
+  }
+
+  return entries;
+}
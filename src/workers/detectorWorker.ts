@@ -0,0 +1,77 @@
+// Web Worker for running the sync detectors over many events at once
+import { getRow } from '../types';
+import type { ColumnarData, EventRow, FrameIndex, PresyncProposal } from '../types';
+import { getPeriodTimes, findFrameAtOrAfter } from '../utils/frameIndex';
+import { suggestSyncFrame, DEFAULT_DETECTOR_OPTIONS } from '../utils/syncDetectors';
+import { detectLinkedGroups, findPairedEventIndex } from '../utils/linkedGroups';
+import type { EventGroup } from '../utils/linkedGroups';
+
+self.onmessage = (e: MessageEvent) => {
+  const { type, id } = e.data;
+
+  if (type === 'presync') {
+    try {
+      const tracking = e.data.tracking as ColumnarData; // Detector columns only - see runPresync
+      const index = e.data.frameIndex as FrameIndex;
+      const events = e.data.events as ColumnarData;
+      const eventIndices = e.data.eventIndices as number[];
+      const options = { ...DEFAULT_DETECTOR_OPTIONS, pitch: e.data.pitch ?? DEFAULT_DETECTOR_OPTIONS.pitch };
+
+      self.postMessage({ type: 'progress', id, progress: 0 });
+
+      const eventIdCol = events.columns['opta_event_id'];
+      const proposals: PresyncProposal[] = [];
+
+      // Pairs come from the same linked groups the sync page uses
+      const groupByEvent = new Map<number, EventGroup>();
+      for (const group of detectLinkedGroups(events)) {
+        for (const index of group.indices) groupByEvent.set(index, group);
+      }
+
+      for (let i = 0; i < eventIndices.length; i++) {
+        const eventIndex = eventIndices[i];
+        const event = getRow<EventRow>(events, eventIndex);
+        const eventId = String(eventIdCol?.[eventIndex] ?? eventIndex);
+
+        const pairedIndex = findPairedEventIndex(events, groupByEvent.get(eventIndex) ?? null, eventIndex);
+        const pairedEvent = pairedIndex !== null ? getRow<EventRow>(events, pairedIndex) : null;
+        const suggestion = suggestSyncFrame(event, tracking, index, options, pairedEvent);
+
+        if (suggestion) {
+          proposals.push({
+            eventId,
+            eventIndex,
+            time: suggestion.time,
+            confidence: suggestion.confidence,
+            detector: suggestion.detector,
+          });
+        } else {
+          // No detector applies - propose the event's own frame with zero confidence
+          const times = getPeriodTimes(index, event.period_id);
+          if (times.length > 0) {
+            const frameIdx = findFrameAtOrAfter(times, event.matched_time);
+            proposals.push({
+              eventId,
+              eventIndex,
+              time: times[frameIdx === -1 ? times.length - 1 : frameIdx],
+              confidence: 0,
+              detector: null,
+            });
+          }
+        }
+
+        if (i % 25 === 0) {
+          self.postMessage({ type: 'progress', id, progress: Math.round((i / eventIndices.length) * 100) });
+        }
+      }
+
+      self.postMessage({ type: 'success', id, proposals });
+    } catch (error) {
+      self.postMessage({
+        type: 'error',
+        id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+};
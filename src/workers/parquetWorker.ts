@@ -1,6 +1,25 @@
-// Web Worker for parsing parquet files
+// Web Worker for parsing parquet files and raw tracking feeds
 import init, { readParquet } from 'parquet-wasm';
 import { tableFromIPC } from 'apache-arrow';
+import { createTypedColumn, createNullMask, setNull, toFiniteNumber, createColumnsBuilder } from '../utils/columns';
+import { readLines } from '../utils/lineReader';
+import { appendTracabFrame } from '../utils/tracab';
+import type { TracabMetadata } from '../utils/tracab';
+import { appendSecondSpectrumFrame, SECOND_SPECTRUM_COLUMNS } from '../utils/secondSpectrum';
+import type { SecondSpectrumMetadata } from '../utils/secondSpectrum';
+import { createMetricaTrackingParser } from '../utils/metrica';
+import { addKinematicsColumns } from '../utils/kinematics';
+import type { KinematicsOptions } from '../utils/kinematics';
+import { scanTrackingQuality } from '../utils/trackingQuality';
+import { buildFrameIndex } from '../utils/frameIndex';
+import { hasRequiredFields, TRACKING_FIELDS } from '../utils/columnMapping';
+import type { ColumnarData, NumericColumn, NumericColumnType, PitchDimensions } from '../types';
+
+// Post-processing for tracking, run before the columns leave the worker (positions are still in meters)
+interface TrackingOptions {
+  kinematics: KinematicsOptions | null; // Derived speed/acceleration columns, null to skip them
+  pitch?: PitchDimensions;              // Match pitch for the quality scan - the default 105x68 if missing
+}
 
 let initialized = false;
 
@@ -19,117 +38,223 @@ function convertBigInts(obj: unknown): unknown {
   return obj;
 }
 
-self.onmessage = async (e: MessageEvent) => {
-  const { type, data, id } = e.data;
+// Add kinematics columns and scan the tracking quality - only the report is posted, not a copy of the scanned columns
+// Unmapped parquet columns are skipped, they are post-processed once mapped
+function postProcessTracking(id: number, data: ColumnarData, options: TrackingOptions): ColumnarData {
+  if (!hasRequiredFields(data, TRACKING_FIELDS)) return data;
+  if (options.kinematics) data = addKinematicsColumns(data, options.kinematics);
+  const report = scanTrackingQuality(data, buildFrameIndex(data), options.pitch);
+  self.postMessage({ type: 'quality', id, report });
+  return data;
+}
 
-  if (type === 'parse') {
-    try {
-      // Send initial progress
-      self.postMessage({ type: 'progress', id, progress: 0 });
+// Send parsed data to the main thread - metadata first, then each column separately
+// (typed columns are transferred zero-copy)
+function postColumnarData(id: number, data: ColumnarData, tracking?: TrackingOptions) {
+  self.postMessage({ type: 'progress', id, progress: 90 });
+  if (tracking) data = postProcessTracking(id, data, tracking);
 
-      // Initialize WASM if not already done
-      if (!initialized) {
-        await init();
-        initialized = true;
-      }
+  self.postMessage({
+    type: 'metadata',
+    id,
+    data: {
+      numRows: data.numRows,
+      fieldNames: data.fieldNames
+    }
+  });
+
+  for (const fieldName of Object.keys(data.columns)) {
+    const col = data.columns[fieldName];
+    const nulls = data.nullMasks?.[fieldName];
+    const transfer: Transferable[] = [];
+    if (!Array.isArray(col)) transfer.push(col.buffer);
+    if (nulls) transfer.push(nulls.buffer);
+
+    self.postMessage({
+      type: 'column',
+      id,
+      fieldName,
+      data: col,
+      nulls
+    }, { transfer });
+  }
+
+  self.postMessage({
+    type: 'success',
+    id
+  });
+}
+
+// Progress callback for streamed files - maps the fraction read onto 0-90% and only posts when it changes
+function createProgressReporter(id: number) {
+  let lastProgress = -1;
+  return (fraction: number) => {
+    const progress = Math.round(fraction * 90);
+    if (progress !== lastProgress) {
+      lastProgress = progress;
+      self.postMessage({ type: 'progress', id, progress });
+    }
+  };
+}
+
+async function parseParquet(
+  id: number,
+  data: ArrayBuffer,
+  numericColumns: Record<string, NumericColumnType>,
+  tracking?: TrackingOptions
+) {
+  // Send initial progress
+  self.postMessage({ type: 'progress', id, progress: 0 });
+
+  // Initialize WASM if not already done
+  if (!initialized) {
+    await init();
+    initialized = true;
+  }
+
+  self.postMessage({ type: 'progress', id, progress: 10 });
+
+  const uint8Array = new Uint8Array(data);
+  const wasmTable = readParquet(uint8Array);
+
+  self.postMessage({ type: 'progress', id, progress: 40 });
+
+  // Convert to Arrow IPC format and parse with apache-arrow
+  const ipcStream = wasmTable.intoIPCStream();
+  const arrowTable = tableFromIPC(ipcStream);
+
+  self.postMessage({ type: 'progress', id, progress: 70 });
 
-      self.postMessage({ type: 'progress', id, progress: 10 });
-
-      const uint8Array = new Uint8Array(data);
-      const wasmTable = readParquet(uint8Array);
-
-      self.postMessage({ type: 'progress', id, progress: 40 });
-
-      // Convert to Arrow IPC format and parse with apache-arrow
-      const ipcStream = wasmTable.intoIPCStream();
-      const arrowTable = tableFromIPC(ipcStream);
-
-      self.postMessage({ type: 'progress', id, progress: 70 });
-
-      // Column-based extraction - convert to plain arrays
-      const numRows = arrowTable.numRows;
-      const fields = arrowTable.schema.fields;
-      const columns: Record<string, unknown[]> = {};
-
-      let processedCols = 0;
-      const totalCols = fields.length;
-
-      for (const field of fields) {
-        const column = arrowTable.getChild(field.name);
-        if (column) {
-          const plainArray = new Array(numRows);
-
-          for (let i = 0; i < numRows; i++) {
-            // Check validity bitmap first - Arrow uses a separate validity bitmap for nulls
-            const isValid = column.isValid(i);
-
-            if (!isValid) {
-              plainArray[i] = null;
-              continue;
-            }
-
-            const val = column.get(i);
-            if (val === null || val === undefined) {
-              plainArray[i] = null;
-            } else if (typeof val === 'bigint') {
-              const numVal = Number(val);
-              // Convert NaN/Infinity to null
-              plainArray[i] = Number.isFinite(numVal) ? numVal : null;
-            } else if (typeof val === 'number') {
-              // Convert NaN/Infinity to null for cleaner handling
-              plainArray[i] = Number.isFinite(val) ? val : null;
-            } else if (typeof val === 'string' || typeof val === 'boolean') {
-              plainArray[i] = val;
-            } else if (typeof val === 'object') {
-              // For objects, recursively convert BigInts then stringify
-              const converted = convertBigInts(val);
-              plainArray[i] = JSON.parse(JSON.stringify(converted));
-            } else {
-              plainArray[i] = val;
-            }
-          }
-
-          columns[field.name] = plainArray;
+  // Column-based extraction - typed arrays for numeric columns, plain arrays otherwise
+  const numRows = arrowTable.numRows;
+  const fields = arrowTable.schema.fields;
+  const columns: Record<string, unknown[] | NumericColumn> = {};
+  const nullMasks: Record<string, Uint8Array> = {};
+
+  let processedCols = 0;
+  const totalCols = fields.length;
+
+  for (const field of fields) {
+    const column = arrowTable.getChild(field.name);
+    const numericType = numericColumns[field.name];
+    if (column && numericType) {
+      const typedArray = createTypedColumn(numericType, numRows);
+      let nulls: Uint8Array | null = null;
+
+      for (let i = 0; i < numRows; i++) {
+        const num = column.isValid(i) ? toFiniteNumber(column.get(i)) : null;
+        if (num === null) {
+          if (!nulls) nulls = createNullMask(numRows);
+          setNull(nulls, i);
+          if (numericType === 'float32') typedArray[i] = NaN;
+        } else {
+          typedArray[i] = numericType === 'int32' ? Math.round(num) : num;
         }
-        processedCols++;
-        const progress = 70 + Math.round((processedCols / totalCols) * 20);
-        self.postMessage({ type: 'progress', id, progress });
       }
 
-      self.postMessage({ type: 'progress', id, progress: 90 });
+      columns[field.name] = typedArray;
+      if (nulls) nullMasks[field.name] = nulls;
+    } else if (column) {
+      const plainArray = new Array(numRows);
+
+      for (let i = 0; i < numRows; i++) {
+        // Check validity bitmap first - Arrow uses a separate validity bitmap for nulls
+        const isValid = column.isValid(i);
+
+        if (!isValid) {
+          plainArray[i] = null;
+          continue;
+        }
 
-      // Send column data in chunks to avoid memory issues
-      // First send metadata
-      self.postMessage({
-        type: 'metadata',
-        id,
-        data: {
-          numRows,
-          fieldNames: fields.map(f => f.name)
+        const val = column.get(i);
+        if (val === null || val === undefined) {
+          plainArray[i] = null;
+        } else if (typeof val === 'bigint') {
+          const numVal = Number(val);
+          // Convert NaN/Infinity to null
+          plainArray[i] = Number.isFinite(numVal) ? numVal : null;
+        } else if (typeof val === 'number') {
+          // Convert NaN/Infinity to null for cleaner handling
+          plainArray[i] = Number.isFinite(val) ? val : null;
+        } else if (typeof val === 'string' || typeof val === 'boolean') {
+          plainArray[i] = val;
+        } else if (typeof val === 'object') {
+          // For objects, recursively convert BigInts then stringify
+          const converted = convertBigInts(val);
+          plainArray[i] = JSON.parse(JSON.stringify(converted));
+        } else {
+          plainArray[i] = val;
         }
-      });
-
-      // Then send each column separately
-      for (const fieldName of Object.keys(columns)) {
-        self.postMessage({
-          type: 'column',
-          id,
-          fieldName,
-          data: columns[fieldName]
-        });
       }
 
-      // Signal completion
-      self.postMessage({
-        type: 'success',
-        id
-      });
-    } catch (error) {
-      self.postMessage({
-        type: 'error',
-        id,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+      columns[field.name] = plainArray;
+    }
+    processedCols++;
+    const progress = 70 + Math.round((processedCols / totalCols) * 20);
+    self.postMessage({ type: 'progress', id, progress });
+  }
+
+  postColumnarData(id, { columns, nullMasks, numRows, fieldNames: fields.map(f => f.name) }, tracking);
+}
+
+// TRACAB .dat file - streamed line by line, metadata parsed on the main thread
+async function parseTracab(id: number, file: File, meta: TracabMetadata, tracking: TrackingOptions) {
+  const builder = createColumnsBuilder();
+  await readLines(file, line => {
+    if (line) appendTracabFrame(line, meta, builder);
+  }, createProgressReporter(id));
+  postColumnarData(id, builder.finish(), tracking);
+}
+
+// Second Spectrum JSONL file - one frame per line, metadata parsed on the main thread
+async function parseSecondSpectrum(id: number, file: File, meta: SecondSpectrumMetadata, tracking: TrackingOptions) {
+  const builder = createColumnsBuilder(SECOND_SPECTRUM_COLUMNS);
+  await readLines(file, line => {
+    if (line.trim()) appendSecondSpectrumFrame(line, meta, builder);
+  }, createProgressReporter(id));
+  postColumnarData(id, builder.finish(), tracking);
+}
+
+// Metrica tracking - one wide CSV per team, pivoted into rows (ball read from the first file only)
+async function parseMetrica(id: number, files: File[], pitch: PitchDimensions, tracking: TrackingOptions) {
+  const builder = createColumnsBuilder();
+  const totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+  const reportProgress = createProgressReporter(id);
+
+  let bytesBefore = 0;
+  for (const [i, file] of files.entries()) {
+    const parseLine = createMetricaTrackingParser(builder, { pitch, includeBall: i === 0 });
+    await readLines(file, line => {
+      if (line) parseLine(line);
+    }, fraction => reportProgress((bytesBefore + fraction * file.size) / totalBytes));
+    bytesBefore += file.size;
+  }
+  postColumnarData(id, builder.finish(), tracking);
+}
+
+self.onmessage = async (e: MessageEvent) => {
+  // Tracking post-processing options, missing for events
+  const { type, id, tracking } = e.data;
+
+  try {
+    if (type === 'parse') {
+      // Columns to extract as typed arrays (name -> type), everything else stays a plain array
+      await parseParquet(id, e.data.data, e.data.numericColumns ?? {}, tracking);
+    } else if (type === 'parse-tracab') {
+      await parseTracab(id, e.data.file, e.data.meta, tracking);
+    } else if (type === 'parse-second-spectrum') {
+      await parseSecondSpectrum(id, e.data.file, e.data.meta, tracking);
+    } else if (type === 'parse-metrica') {
+      await parseMetrica(id, e.data.files, e.data.pitch, tracking);
+    } else if (type === 'post-process-tracking') {
+      // Tracking already parsed on the main thread (mapped columns, bundle files sorted by their columns)
+      postColumnarData(id, e.data.data, tracking);
     }
+  } catch (error) {
+    self.postMessage({
+      type: 'error',
+      id,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
   }
 };